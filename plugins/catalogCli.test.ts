@@ -0,0 +1,194 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { addImages, formatCoverage, reportCoverage, retireImage, runCatalogCommand, validateCatalog } from './catalogCli';
+import { buildCatalog, directoryImageSource } from './imageCatalog';
+
+const log = { info: () => {}, warn: () => {} };
+
+// Distinct colours make distinct contents
+const png = (background: string) =>
+  sharp({ create: { width: 32, height: 24, channels: 3, background } }).png().toBuffer();
+
+let root: string;
+let incoming: string;
+
+const write = async (file: string, contents: Buffer | string) => {
+  await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+  await fs.writeFile(path.join(root, file), contents);
+};
+
+const exists = (file: string) => fs.access(path.join(root, file)).then(() => true, () => false);
+
+const newFile = async (name: string, background: string) => {
+  const file = path.join(incoming, name);
+  await fs.writeFile(file, await png(background));
+  return file;
+};
+
+// A playable category: one real and one AI image, both with placeholders
+const seed = async () => {
+  await fs.mkdir(path.join(root, 'people'));
+  await addImages(root, { category: 'people', type: 'real', files: [await newFile('a.png', '#102030')] }, log);
+  await addImages(root, { category: 'people', type: 'ai', files: [await newFile('b.png', '#405060')] }, log);
+};
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'catalog-'));
+  incoming = await fs.mkdtemp(path.join(os.tmpdir(), 'incoming-'));
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+  await fs.rm(incoming, { recursive: true, force: true });
+});
+
+describe('addImages', () => {
+  it('imports files as numbered JPEGs with placeholders, after the highest number in use', async () => {
+    await seed();
+    await write('people/real/retired/7.jpg', await sharp(await png('#ffffff')).jpeg().toBuffer());
+
+    const added = await addImages(root, { category: 'people', type: 'real', files: [await newFile('c.png', '#aa0000')] }, log);
+
+    expect(added).toEqual(['people/real/8.jpg']);
+    expect((await sharp(path.join(root, 'people/real/8.jpg')).metadata()).format).toBe('jpeg');
+    expect(await exists('people/real/lqip/8.jpg')).toBe(true);
+  });
+
+  it('skips images already in the catalog, under either type', async () => {
+    await seed();
+    const warnings: string[] = [];
+
+    const added = await addImages(
+      root,
+      { category: 'people', type: 'ai', files: [await newFile('copy.png', '#102030')] },
+      { ...log, warn: message => warnings.push(message) },
+    );
+
+    expect(added).toEqual([]);
+    expect(warnings[0]).toContain('people/real/1.jpg');
+  });
+
+  it('rejects unknown categories, types and formats', async () => {
+    await seed();
+    const file = await newFile('d.png', '#00aa00');
+    await expect(addImages(root, { category: 'pets', type: 'real', files: [file] }, log)).rejects.toThrow('Unknown category');
+    await expect(addImages(root, { category: 'people', type: 'fake', files: [file] }, log)).rejects.toThrow('real or ai');
+    await expect(addImages(root, { category: 'people', type: 'real', files: ['notes.txt'] }, log)).rejects.toThrow('notes.txt');
+  });
+});
+
+describe('validateCatalog', () => {
+  it('passes a catalog in its layout', async () => {
+    await seed();
+    expect(await validateCatalog(root, {}, log)).toEqual({ counts: [{ category: 'people', real: 1, ai: 1 }], problems: [], fixed: [] });
+  });
+
+  it('reports missing and orphaned placeholders, stray files and malformed sidecars', async () => {
+    await seed();
+    await fs.rm(path.join(root, 'people/ai/lqip/1.jpg'));
+    await write('people/real/lqip/9.jpg', 'x');
+    await write('people/real/2.JPG', 'x');
+    await write('people/real/1.json', '{ "difficulty": 9 }');
+
+    const { problems } = await validateCatalog(root, {}, log);
+
+    expect(problems).toHaveLength(4);
+    expect(problems).toContainEqual(expect.stringMatching(/^people\/ai\/1\.jpg: no placeholder/));
+    expect(problems).toContainEqual(expect.stringMatching(/^people\/real\/lqip\/9\.jpg: placeholder without an image/));
+    expect(problems).toContainEqual(expect.stringMatching(/^people\/real\/2\.JPG: not part of the catalog/));
+    expect(problems).toContainEqual(expect.stringMatching(/^people\/real\/1\.json: /));
+  });
+
+  it('makes missing placeholders with fix', async () => {
+    await seed();
+    await fs.rm(path.join(root, 'people/ai/lqip/1.jpg'));
+
+    const { problems, fixed } = await validateCatalog(root, { fix: true }, log);
+
+    expect(fixed).toEqual(['people/ai/lqip/1.jpg']);
+    expect(problems).toEqual([]);
+    expect(await exists('people/ai/lqip/1.jpg')).toBe(true);
+  });
+
+  it('flags the same image filed as both real and AI', async () => {
+    await seed();
+    await fs.copyFile(path.join(root, 'people/real/1.jpg'), path.join(root, 'people/ai/2.jpg'));
+    await fs.copyFile(path.join(root, 'people/real/lqip/1.jpg'), path.join(root, 'people/ai/lqip/2.jpg'));
+
+    const { problems } = await validateCatalog(root, {}, log);
+
+    expect(problems).toEqual(['identical images filed as both real and AI: people/ai/2.jpg, people/real/1.jpg']);
+  });
+
+  it('reports categories that have no images of one type in rotation', async () => {
+    await seed();
+    await retireImage(root, 'people/ai/1.jpg', log);
+
+    const { counts, problems } = await validateCatalog(root, {}, log);
+
+    expect(counts).toEqual([{ category: 'people', real: 1, ai: 0 }]);
+    expect(problems).toEqual(["people: no AI images in rotation, so it can't be played"]);
+  });
+});
+
+describe('retireImage', () => {
+  it('moves the image, its placeholder and its sidecar, keeping its id', async () => {
+    await seed();
+    await write('people/ai/1.json', '{ "difficulty": 2 }');
+    const before = await buildCatalog(directoryImageSource(root), () => {});
+    const id = [...before.sourceFiles].find(([, file]) => file === 'people/ai/1.jpg')![0];
+
+    expect(await retireImage(root, id, log)).toBe('people/ai/retired/1.jpg');
+
+    expect(await exists('people/ai/1.jpg')).toBe(false);
+    expect(await exists('people/ai/retired/lqip/1.jpg')).toBe(true);
+    expect(await exists('people/ai/retired/1.json')).toBe(true);
+    const after = await buildCatalog(directoryImageSource(root), () => {});
+    expect(after.key).toBe(before.key);
+    const entry = after.entries.find(candidate => candidate.id === id)!;
+    expect(entry.retired).toBe(true);
+    expect(after.generated.get(path.basename(entry.metaSrc))).toBe('{"difficulty":2}');
+  });
+
+  it('refuses unknown and already retired images', async () => {
+    await seed();
+    await retireImage(root, 'people/ai/1.jpg', log);
+    await expect(retireImage(root, 'people/ai/1.jpg', log)).rejects.toThrow('No image');
+    await expect(retireImage(root, 'people/ai/retired/1.jpg', log)).rejects.toThrow('already retired');
+  });
+});
+
+describe('reportCoverage', () => {
+  it('counts images and sidecar fields per category', async () => {
+    await seed();
+    await write('people/real/1.json', JSON.stringify({ photographer: 'A. Person', difficulty: 1 }));
+    await retireImage(root, 'people/ai/1.jpg', log);
+
+    const coverage = await reportCoverage(root);
+
+    expect(coverage).toEqual([
+      { category: 'people', real: 1, ai: 0, retired: 1, placeholders: 2, sidecars: 1, difficulty: 1, tells: 0, credits: 1 },
+    ]);
+    expect(formatCoverage(coverage).split('\n')[1]).toMatch(/^people\s+1\s+0\s+1\s+2\/2\s+1\/2/);
+  });
+});
+
+describe('runCatalogCommand', () => {
+  it('prints the usage and fails on unknown commands or missing arguments', async () => {
+    const warnings: string[] = [];
+    const failing = { ...log, warn: (message: string) => warnings.push(message) };
+    expect(await runCatalogCommand(['rename'], root, failing)).toBe(1);
+    expect(await runCatalogCommand(['add', 'people'], root, failing)).toBe(1);
+    expect(warnings.every(warning => warning.startsWith('Usage: pnpm catalog'))).toBe(true);
+  });
+
+  it('exits with an error when validation finds problems', async () => {
+    await seed();
+    expect(await runCatalogCommand(['validate'], root, log)).toBe(0);
+    await write('people/notes.txt', 'x');
+    expect(await runCatalogCommand(['validate'], root, log)).toBe(1);
+  });
+});
@@ -0,0 +1,291 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ImageMetadata } from '../src/types';
+import {
+  CatalogSourceImage,
+  directoryImageSource,
+  findCatalogImages,
+  getImageDir,
+  getImagePath,
+  getLqipPath,
+  getMetadataPath,
+  hashContents,
+  readMetadata,
+} from './imageCatalog';
+import { encodeLqip } from './imageVariants';
+import { generateLqips, IMPORTABLE_EXTENSIONS, normalizeSource, PipelineLog } from './imagePipeline';
+
+// Catalog maintenance, run as `pnpm catalog <command>` (scripts/catalog.mjs):
+//   add <category> <real|ai> <files...>   import new images, normalized and numbered
+//   validate [--fix]                      check the folder; --fix makes missing placeholders
+//   retire <path or id>                   take an image out of rotation
+//   report                                coverage per category
+// Every command works on the image folder only; the game picks changes up on its next build.
+
+const IMAGE_TYPES = ['real', 'ai'] as const;
+
+export interface CategoryCoverage {
+  category: string;
+  real: number; // In rotation
+  ai: number;
+  retired: number;
+  placeholders: number; // Of all images, retired ones too
+  sidecars: number;
+  difficulty: number; // Sidecars with a difficulty rating
+  tells: number; // Sidecars with at least one tell
+  credits: number; // Sidecars crediting a source or photographer
+}
+
+export interface CatalogValidation {
+  counts: Array<Pick<CategoryCoverage, 'category' | 'real' | 'ai'>>;
+  problems: string[];
+  fixed: string[];
+}
+
+const readCatalogImages = async (imagesRoot: string) => {
+  const files = await directoryImageSource(imagesRoot).listFiles();
+  return { files, images: findCatalogImages(files) };
+};
+
+const hashImageFile = async (imagesRoot: string, file: string): Promise<string> =>
+  hashContents(await fs.readFile(path.join(imagesRoot, file)));
+
+const countByCategory = (images: CatalogSourceImage[]): CatalogValidation['counts'] => {
+  const counts = new Map<string, { real: number; ai: number }>();
+  for (const image of images) {
+    const count = counts.get(image.category) ?? { real: 0, ai: 0 };
+    if (!image.retired) count[image.type]++;
+    counts.set(image.category, count);
+  }
+  return [...counts.keys()].sort().map(category => ({ category, ...counts.get(category)! }));
+};
+
+/**
+ * Imports new image files into `<category>/<type>/`: each is converted to an upright JPEG
+ * without metadata, named with the next free number and given its placeholder. Files whose
+ * converted contents are already in the catalog, in either type, are skipped.
+ * Returns the new paths, relative to the image root.
+ */
+export const addImages = async (
+  imagesRoot: string,
+  { category, type, files }: { category: string; type: string; files: string[] },
+  log: PipelineLog,
+): Promise<string[]> => {
+  if (!(IMAGE_TYPES as readonly string[]).includes(type)) throw new Error(`Type must be real or ai, not ${type}`);
+  const categoryDir = await fs.stat(path.join(imagesRoot, category)).catch(() => null);
+  if (!categoryDir?.isDirectory()) throw new Error(`Unknown category ${category}; create ${path.join(imagesRoot, category)} first`);
+  const unsupported = files.filter(file => !IMPORTABLE_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+  if (unsupported.length > 0) throw new Error(`Can't import ${unsupported.join(', ')}: use ${IMPORTABLE_EXTENSIONS.join(', ')}`);
+
+  const { images } = await readCatalogImages(imagesRoot);
+  const known = new Map<string, string>();
+  for (const image of images) known.set(await hashImageFile(imagesRoot, image.file), image.file);
+  // Numbers of retired images stay taken, so a name never means two different images
+  let next = 1 + Math.max(0, ...images
+    .filter(image => image.category === category && image.type === type)
+    .map(image => Number(image.name))
+    .filter(Number.isInteger));
+
+  const added: string[] = [];
+  for (const file of files) {
+    const contents = await normalizeSource(await fs.readFile(file));
+    const hash = hashContents(contents);
+    if (known.has(hash)) {
+      log.warn(`Skipping ${file}: already in the catalog as ${known.get(hash)}`);
+      continue;
+    }
+    const image = { category, type: type as 'real' | 'ai', name: String(next++), retired: false };
+    const target = getImagePath(image);
+    const lqip = getLqipPath(image);
+    await fs.mkdir(path.dirname(path.join(imagesRoot, lqip)), { recursive: true });
+    await fs.writeFile(path.join(imagesRoot, target), contents);
+    await fs.writeFile(path.join(imagesRoot, lqip), await encodeLqip(contents));
+    known.set(hash, target);
+    log.info(`Added ${file} as ${target}`);
+    added.push(target);
+  }
+  return added;
+};
+
+/**
+ * Checks the image folder: placeholders missing or without an image, files outside the
+ * layout, identical images (worst of all when one is real and the other AI), categories
+ * missing a type and malformed sidecars. With `fix`, makes the missing placeholders.
+ */
+export const validateCatalog = async (imagesRoot: string, { fix = false }: { fix?: boolean }, log: PipelineLog): Promise<CatalogValidation> => {
+  const { files, images } = await readCatalogImages(imagesRoot);
+  const problems: string[] = [];
+  const fixed = fix ? await generateLqips(imagesRoot, log) : [];
+
+  const layout = new Set(images.flatMap(image => [image.file, getLqipPath(image), ...(image.metadataFile ? [image.metadataFile] : [])]));
+  for (const image of images) {
+    if (!image.lqipFile && !fixed.includes(getLqipPath(image))) {
+      problems.push(`${image.file}: no placeholder (validate --fix makes one)`);
+    }
+  }
+  for (const file of files) {
+    if (layout.has(file)) continue;
+    problems.push(file.split('/').includes('lqip')
+      ? `${file}: placeholder without an image`
+      : `${file}: not part of the catalog (sources are <category>/<real|ai>/<name>.jpg; import other files with add)`);
+  }
+
+  const byHash = new Map<string, CatalogSourceImage[]>();
+  for (const image of images) {
+    const hash = await hashImageFile(imagesRoot, image.file);
+    byHash.set(hash, [...(byHash.get(hash) ?? []), image]);
+  }
+  for (const same of byHash.values()) {
+    if (same.length < 2) continue;
+    const paths = same.map(image => image.file).join(', ');
+    problems.push(new Set(same.map(image => image.type)).size > 1
+      ? `identical images filed as both real and AI: ${paths}`
+      : `identical images: ${paths}`);
+  }
+
+  const counts = countByCategory(images);
+  for (const { category, real, ai } of counts) {
+    if (real === 0 || ai === 0) problems.push(`${category}: no ${real === 0 ? 'real' : 'AI'} images in rotation, so it can't be played`);
+  }
+
+  const imageSource = directoryImageSource(imagesRoot);
+  for (const image of images) {
+    const { errors } = await readMetadata(imageSource, image);
+    problems.push(...errors.map(error => `${image.metadataFile}: ${error}`));
+  }
+
+  return { counts, problems, fixed };
+};
+
+/**
+ * Moves an image, its placeholder and its sidecar into its folder's `retired/`. The contents
+ * don't change, so neither does its id: rounds already played still find it, and it keeps
+ * being published for them, but it is never dealt again. Returns the new path.
+ */
+export const retireImage = async (imagesRoot: string, target: string, log: PipelineLog): Promise<string> => {
+  const { images } = await readCatalogImages(imagesRoot);
+  let image = images.find(candidate => candidate.file === target.replace(/\\/g, '/'));
+  // Ids are content hashes, as stored in round histories and crowd statistics
+  if (!image && /^[0-9a-f]{16}$/.test(target)) {
+    for (const candidate of images) {
+      if (await hashImageFile(imagesRoot, candidate.file) === target) image = candidate;
+    }
+  }
+  if (!image) throw new Error(`No image ${target} in ${imagesRoot}`);
+  if (image.retired) throw new Error(`${image.file} is already retired`);
+
+  const retired = { category: image.category, type: image.type, name: image.name, retired: true };
+  const moves: Array<[string, string]> = [[image.file, getImagePath(retired)]];
+  if (image.lqipFile) moves.push([image.lqipFile, getLqipPath(retired)]);
+  if (image.metadataFile) moves.push([image.metadataFile, getMetadataPath(retired)]);
+  for (const [, to] of moves) {
+    if (await fs.access(path.join(imagesRoot, to)).then(() => true, () => false)) throw new Error(`${to} already exists`);
+  }
+
+  await fs.mkdir(path.join(imagesRoot, getImageDir(retired), 'lqip'), { recursive: true });
+  for (const [from, to] of moves) {
+    await fs.rename(path.join(imagesRoot, from), path.join(imagesRoot, to));
+    log.info(`Moved ${from} -> ${to}`);
+  }
+  return getImagePath(retired);
+};
+
+/**
+ * Counts images, placeholders and sidecar fields per category.
+ */
+export const reportCoverage = async (imagesRoot: string): Promise<CategoryCoverage[]> => {
+  const { images } = await readCatalogImages(imagesRoot);
+  const imageSource = directoryImageSource(imagesRoot);
+  const coverage = new Map<string, CategoryCoverage>();
+  for (const image of images) {
+    const row = coverage.get(image.category) ?? {
+      category: image.category, real: 0, ai: 0, retired: 0, placeholders: 0, sidecars: 0, difficulty: 0, tells: 0, credits: 0,
+    };
+    if (image.retired) row.retired++;
+    else row[image.type]++;
+    if (image.lqipFile) row.placeholders++;
+    if (image.metadataFile) {
+      const { metadata } = await readMetadata(imageSource, image);
+      const { difficulty, tells, source, photographer } = metadata as ImageMetadata;
+      row.sidecars++;
+      if (difficulty !== undefined) row.difficulty++;
+      if (tells?.length) row.tells++;
+      if (source || photographer) row.credits++;
+    }
+    coverage.set(image.category, row);
+  }
+  return [...coverage.keys()].sort().map(category => coverage.get(category)!);
+};
+
+const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ')).join('\n');
+};
+
+export const formatCoverage = (coverage: CategoryCoverage[]): string => {
+  if (coverage.length === 0) return 'No images in the catalog.';
+  const total = (count: number, of: CategoryCoverage) => `${count}/${of.real + of.ai + of.retired}`;
+  return formatTable([
+    ['category', 'real', 'AI', 'retired', 'placeholders', 'sidecars', 'difficulty', 'tells', 'credits'],
+    ...coverage.map(row => [
+      row.category,
+      String(row.real),
+      String(row.ai),
+      String(row.retired),
+      total(row.placeholders, row),
+      total(row.sidecars, row),
+      total(row.difficulty, row),
+      total(row.tells, row),
+      total(row.credits, row),
+    ]),
+  ]);
+};
+
+const USAGE = `Usage: pnpm catalog <command>
+  add <category> <real|ai> <files...>   Import new images, normalized and numbered
+  validate [--fix]                      Check the image folder; --fix makes missing placeholders
+  retire <path or id>                   Take an image out of rotation, e.g. people/ai/12.jpg
+  report                                Coverage per category`;
+
+/**
+ * Runs a command line. Returns the exit code; problems, and the usage on bad arguments,
+ * go to the log instead of being thrown.
+ */
+export const runCatalogCommand = async (args: string[], imagesRoot: string, log: PipelineLog): Promise<number> => {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case 'add': {
+        const [category, type, ...files] = rest;
+        if (!category || !type || files.length === 0) break;
+        const added = await addImages(imagesRoot, { category, type, files }, log);
+        log.info(`Added ${added.length} of ${files.length} images.`);
+        return 0;
+      }
+      case 'validate': {
+        const { counts, problems, fixed } = await validateCatalog(imagesRoot, { fix: rest.includes('--fix') }, log);
+        log.info(formatTable([['category', 'real', 'AI'], ...counts.map(({ category, real, ai }) => [category, String(real), String(ai)])]));
+        if (fixed.length > 0) log.info(`Made ${fixed.length} placeholders.`);
+        if (problems.length === 0) {
+          log.info('No problems found.');
+          return 0;
+        }
+        log.warn(`${problems.length} problems:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        return 1;
+      }
+      case 'retire': {
+        if (rest.length !== 1) break;
+        await retireImage(imagesRoot, rest[0], log);
+        return 0;
+      }
+      case 'report':
+        log.info(formatCoverage(await reportCoverage(imagesRoot)));
+        return 0;
+    }
+  } catch (error) {
+    log.warn((error as Error).message);
+    return 1;
+  }
+  log.warn(USAGE);
+  return 1;
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import {
+  AuditSample,
+  auditCategory,
+  binomialTail,
+  fitStump,
+  guessFromProperty,
+  guessFromThreshold,
+  readFileMeasures,
+  readFileProperties,
+  readQuantizationTables,
+} from './imageAudit';
+import { encodeVariant } from './imageVariants';
+
+const photo = (options: { quality: number; chroma?: string; exif?: boolean; width?: number }) => {
+  const image = sharp({ create: { width: options.width ?? 64, height: 48, channels: 3, background: '#336699' } })
+    .jpeg({ quality: options.quality, chromaSubsampling: options.chroma ?? '4:2:0' });
+  return (options.exif ? image.withMetadata({ exif: { IFD0: { Make: 'Canon' } } }) : image).toBuffer();
+};
+
+const samples = (real: string[], ai: string[]): AuditSample[] => [
+  ...real.map((value, i) => ({ file: `real/${i}.jpg`, isAI: false, properties: { size: value }, measures: {} })),
+  ...ai.map((value, i) => ({ file: `ai/${i}.jpg`, isAI: true, properties: { size: value }, measures: {} })),
+];
+
+const measured = (real: number[], ai: number[]): AuditSample[] => [
+  ...real.map((bytes, i) => ({ file: `real/${i}.jpg`, isAI: false, properties: {}, measures: { bytes } })),
+  ...ai.map((bytes, i) => ({ file: `ai/${i}.jpg`, isAI: true, properties: {}, measures: { bytes } })),
+];
+
+const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+describe('readFileProperties', () => {
+  it('tells encoders, subsampling and embedded metadata apart', async () => {
+    const camera = await readFileProperties(await photo({ quality: 92, chroma: '4:4:4', exif: true, width: 80 }));
+    const render = await readFileProperties(await photo({ quality: 75 }));
+
+    expect(camera).toMatchObject({ format: 'jpeg', size: '80x48', chroma: '4:4:4' });
+    expect(camera.metadata).toContain('exif');
+    expect(render).toMatchObject({ format: 'jpeg', size: '64x48', aspect: '1.33', chroma: '4:2:0', metadata: 'none' });
+    expect(camera.quantization).not.toBe(render.quantization);
+  });
+
+  it('finds nothing to tell apart once both are normalized', async () => {
+    const camera = await encodeVariant(await photo({ quality: 92, chroma: '4:4:4', exif: true, width: 80 }), { width: 96, format: 'jpeg' });
+    const render = await encodeVariant(await photo({ quality: 75 }), { width: 96, format: 'jpeg' });
+
+    expect(await readFileProperties(camera)).toEqual(await readFileProperties(render));
+  });
+});
+
+describe('readFileMeasures', () => {
+  it('counts bytes in all and per pixel', async () => {
+    const contents = await photo({ quality: 80 });
+    expect(await readFileMeasures(contents)).toEqual({ bytes: contents.length, 'bytes per pixel': contents.length / (64 * 48) });
+  });
+});
+
+describe('readQuantizationTables', () => {
+  it('is the same for the same settings and null for anything but JPEG', async () => {
+    expect(readQuantizationTables(await photo({ quality: 80 }))).toBe(readQuantizationTables(await photo({ quality: 80, width: 32 })));
+    expect(readQuantizationTables(await sharp(await photo({ quality: 80 })).png().toBuffer())).toBeNull();
+  });
+});
+
+describe('auditCategory', () => {
+  it('fails a property that separates real from AI', () => {
+    const audit = auditCategory('people', samples(Array(20).fill('1600x1066'), Array(20).fill('1600x1600')));
+
+    expect(audit.chance).toBe(0.5);
+    expect(audit.beatsChance.map(difference => difference.property)).toEqual(['all properties', 'size']);
+    expect(audit.beatsChance[1]).toMatchObject({ accuracy: 1, real: { '1600x1066': 20 }, ai: { '1600x1600': 20 } });
+  });
+
+  it('fails a measure that a threshold separates', () => {
+    const audit = auditCategory('people', measured(range(100, 20), range(200, 20)));
+
+    expect(audit.beatsChance.map(difference => difference.property)).toEqual(['bytes']);
+    expect(audit.measures[0]).toMatchObject({
+      accuracy: 1,
+      stump: { threshold: 159.5, aboveIsAI: true },
+      real: { min: 100, median: 109.5, max: 119 },
+    });
+  });
+
+  it('passes properties that are the same, or only differ by luck', () => {
+    expect(auditCategory('people', samples(Array(20).fill('960x960'), Array(20).fill('960x960'))).differences).toEqual([]);
+
+    const even = auditCategory('people', samples(['a', 'b', ...Array(18).fill('c')], ['a', 'b', ...Array(18).fill('c')]));
+    expect(even.differences.map(difference => difference.property)).toEqual(['all properties', 'size']);
+    expect(even.beatsChance).toEqual([]);
+    const stray = auditCategory('people', samples(['a', ...Array(19).fill('c')], Array(20).fill('c')));
+    expect(stray.beatsChance).toEqual([]);
+  });
+});
+
+describe('guessFromProperty', () => {
+  it('never uses the image being guessed', () => {
+    // Each value appears once, so every guess falls back to the larger side of the rest
+    expect(guessFromProperty(samples(['a', 'b', 'c'], ['d']), 'size')).toBe(0.75);
+  });
+});
+
+describe('fitStump', () => {
+  it('keeps answering the larger side unless a threshold does better', () => {
+    const sorted = [1, 2, 3, 4].map((value, i) => ({ value, isAI: i % 2 === 0 }));
+    expect(fitStump(sorted.slice(1))).toEqual({ threshold: -Infinity, aboveIsAI: false });
+    expect(fitStump(sorted)).toEqual({ threshold: 1.5, aboveIsAI: false });
+  });
+});
+
+describe('guessFromThreshold', () => {
+  it('never uses the image being guessed', () => {
+    // Any threshold fit without one of the values wrongly splits that value off
+    expect(guessFromThreshold(measured([1, 3], [2, 4]), 'bytes')).toBe(0);
+    expect(guessFromThreshold(measured(range(0, 10), range(20, 10)), 'bytes')).toBe(1);
+  });
+});
+
+describe('binomialTail', () => {
+  it('matches the exact values', () => {
+    expect(binomialTail(10, 10, 0.5)).toBeCloseTo(1 / 1024, 10);
+    expect(binomialTail(10, 0, 0.5)).toBe(1);
+    expect(binomialTail(3, 2, 0.5)).toBeCloseTo(0.5, 10);
+  });
+});
@@ -0,0 +1,390 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { buildCatalog, DEFAULT_VARIANT_CACHE_DIR, directoryImageSource, parseImagePath } from './imageCatalog';
+import { createVariantCache } from './imageVariants';
+
+// Checks that the files players download can't tell real images from AI ones. For each
+// category it reads every published file's properties (format, size, aspect ratio, chroma
+// subsampling, JPEG quantization tables, embedded metadata, ...), compares them between the
+// real and AI images, and tries to guess each image's answer from one property at a time,
+// and from all of them together. Each file's byte size and bytes per pixel are numbers
+// rather than values to match, so they are guessed from with the best threshold instead.
+// Any guess that is right significantly more often than always answering the larger side
+// fails the audit.
+
+export type ImageProperties = Record<string, string>;
+export type ImageMeasures = Record<string, number>;
+
+export interface AuditSample {
+  file: string; // Source path relative to the image root
+  isAI: boolean;
+  properties: ImageProperties;
+  measures: ImageMeasures;
+}
+
+export interface PropertyDifference {
+  property: string;
+  real: Record<string, number>; // Value -> images
+  ai: Record<string, number>;
+  accuracy: number; // Of guessing from this property, leaving each image out in turn
+  pValue: number; // Chance of guessing at least that well by always answering the larger side
+}
+
+export interface MeasureRange {
+  min: number;
+  median: number;
+  max: number;
+}
+
+/**
+ * Guesses AI for values above the threshold when `aboveIsAI`, real otherwise, and the other
+ * answer at or below it. A threshold of -Infinity answers the same for every value.
+ */
+export interface Stump {
+  threshold: number;
+  aboveIsAI: boolean;
+}
+
+export interface MeasureDifference {
+  property: string;
+  real: MeasureRange;
+  ai: MeasureRange;
+  stump: Stump; // Fit on every image, for the report
+  accuracy: number; // Of guessing with a threshold, leaving each image out in turn
+  pValue: number;
+}
+
+export interface CategoryAudit {
+  category: string;
+  real: number;
+  ai: number;
+  chance: number; // Accuracy of always answering the larger side
+  differences: PropertyDifference[]; // Properties that aren't the same for every image
+  measures: MeasureDifference[]; // Measures that aren't the same for every image
+  beatsChance: (PropertyDifference | MeasureDifference)[];
+}
+
+// Significance of a guess beating chance, before correcting for the number of properties tried
+const SIGNIFICANCE = 0.01;
+const ALL_PROPERTIES = 'all properties';
+
+const JPEG_MARKER_DQT = 0xdb;
+const JPEG_MARKER_SOS = 0xda;
+
+/**
+ * A short hash of a JPEG's quantization tables, which differ between encoders and settings.
+ * Null if the file isn't a JPEG.
+ */
+export const readQuantizationTables = (jpeg: Buffer): string | null => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return null;
+  const hash = createHash('sha256');
+  let offset = 2;
+  // Tables come before the scan data; stop at its start marker
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff && jpeg[offset + 1] !== JPEG_MARKER_SOS) {
+    const length = jpeg.readUInt16BE(offset + 2);
+    if (jpeg[offset + 1] === JPEG_MARKER_DQT) hash.update(jpeg.subarray(offset + 4, offset + 2 + length));
+    offset += 2 + length;
+  }
+  return hash.digest('hex').slice(0, 8);
+};
+
+/**
+ * The properties of one image file that could give its answer away without looking at it.
+ */
+export const readFileProperties = async (contents: Buffer): Promise<ImageProperties> => {
+  const metadata = await sharp(contents).metadata();
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  const embedded = (['exif', 'icc', 'xmp', 'iptc'] as const).filter(block => metadata[block]);
+  return {
+    format: metadata.format ?? 'unknown',
+    size: `${width}x${height}`,
+    aspect: height ? (width / height).toFixed(2) : 'unknown',
+    chroma: metadata.chromaSubsampling ?? 'none',
+    progressive: String(!!metadata.isProgressive),
+    colour: `${metadata.space} ${metadata.channels} channels ${metadata.depth}`,
+    density: String(metadata.density ?? 'none'),
+    metadata: embedded.length > 0 ? embedded.join('+') : 'none',
+    quantization: readQuantizationTables(contents) ?? 'none',
+  };
+};
+
+/**
+ * The sizes of one image file, which follow from what is in the picture and how well it compresses.
+ */
+export const readFileMeasures = async (contents: Buffer): Promise<ImageMeasures> => {
+  const { width = 0, height = 0 } = await sharp(contents).metadata();
+  const pixels = width * height;
+  return {
+    bytes: contents.length,
+    'bytes per pixel': pixels > 0 ? contents.length / pixels : 0,
+  };
+};
+
+const countValues = (samples: AuditSample[], property: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const sample of samples) {
+    const value = sample.properties[property];
+    counts[value] = (counts[value] ?? 0) + 1;
+  }
+  return counts;
+};
+
+/**
+ * How often the answer is guessed right from one property alone, leaving each sample out in
+ * turn: the guess is whichever answer the other samples with the same value mostly have,
+ * or the larger side overall for a value none of them has.
+ */
+export const guessFromProperty = (samples: AuditSample[], property: string): number => {
+  const byValue = new Map<string, { ai: number; real: number }>();
+  for (const { properties, isAI } of samples) {
+    const counts = byValue.get(properties[property]) ?? { ai: 0, real: 0 };
+    counts[isAI ? 'ai' : 'real']++;
+    byValue.set(properties[property], counts);
+  }
+  const totalAI = samples.filter(sample => sample.isAI).length;
+  const totalReal = samples.length - totalAI;
+
+  let correct = 0;
+  for (const { properties, isAI } of samples) {
+    const counts = byValue.get(properties[property])!;
+    // Everyone else with this value, then everyone else
+    const ai = counts.ai - (isAI ? 1 : 0);
+    const real = counts.real - (isAI ? 0 : 1);
+    const guessAI = ai + real > 0 ? ai > real : totalAI - (isAI ? 1 : 0) > totalReal - (isAI ? 0 : 1);
+    if (guessAI === isAI) correct++;
+  }
+  return samples.length === 0 ? 0 : correct / samples.length;
+};
+
+interface MeasuredSample {
+  value: number;
+  isAI: boolean;
+}
+
+/**
+ * The threshold that guesses the most of `sorted` right, which must be sorted by value. Only
+ * a threshold that beats answering the larger side every time is taken.
+ */
+export const fitStump = (sorted: MeasuredSample[]): Stump => {
+  const totalAI = sorted.filter(sample => sample.isAI).length;
+  const totalReal = sorted.length - totalAI;
+  let best: Stump = { threshold: -Infinity, aboveIsAI: totalAI > totalReal };
+  let bestCorrect = Math.max(totalAI, totalReal);
+  let aiBelow = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i - 1].isAI) aiBelow++;
+    if (sorted[i - 1].value === sorted[i].value) continue;
+    const realBelow = i - aiBelow;
+    const threshold = (sorted[i - 1].value + sorted[i].value) / 2;
+    // AI above and real below, or the other way round
+    const aiAboveCorrect = realBelow + totalAI - aiBelow;
+    const aiBelowCorrect = aiBelow + totalReal - realBelow;
+    if (Math.max(aiAboveCorrect, aiBelowCorrect) > bestCorrect) {
+      bestCorrect = Math.max(aiAboveCorrect, aiBelowCorrect);
+      best = { threshold, aboveIsAI: aiAboveCorrect >= aiBelowCorrect };
+    }
+  }
+  return best;
+};
+
+const guessesAI = ({ threshold, aboveIsAI }: Stump, value: number): boolean => (value > threshold) === aboveIsAI;
+
+/**
+ * How often the answer is guessed right from one measure with a threshold, leaving each
+ * sample out in turn: the threshold is fit on the other samples only.
+ */
+export const guessFromThreshold = (samples: AuditSample[], measure: string): number => {
+  const sorted = samples
+    .map(({ measures, isAI }) => ({ value: measures[measure], isAI }))
+    .sort((a, b) => a.value - b.value);
+  let correct = 0;
+  sorted.forEach((sample, index) => {
+    const stump = fitStump(sorted.filter((_, other) => other !== index));
+    if (guessesAI(stump, sample.value) === sample.isAI) correct++;
+  });
+  return samples.length === 0 ? 0 : correct / samples.length;
+};
+
+const summarize = (values: number[]): MeasureRange => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    min: sorted[0] ?? 0,
+    median: sorted.length % 2 === 1 ? sorted[middle] : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2,
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+const logFactorial = (n: number): number => {
+  let sum = 0;
+  for (let i = 2; i <= n; i++) sum += Math.log(i);
+  return sum;
+};
+
+/**
+ * The chance of at least `k` successes in `n` tries that each succeed with probability `p`.
+ */
+export const binomialTail = (n: number, k: number, p: number): number => {
+  if (k <= 0) return 1;
+  if (p >= 1) return 1;
+  if (p <= 0) return 0;
+  let tail = 0;
+  for (let i = k; i <= n; i++) {
+    tail += Math.exp(logFactorial(n) - logFactorial(i) - logFactorial(n - i) + i * Math.log(p) + (n - i) * Math.log(1 - p));
+  }
+  return Math.min(1, tail);
+};
+
+/**
+ * Compares the real and AI samples of one category.
+ */
+export const auditCategory = (category: string, samples: AuditSample[]): CategoryAudit => {
+  const ai = samples.filter(sample => sample.isAI).length;
+  const real = samples.length - ai;
+  const chance = samples.length === 0 ? 0 : Math.max(ai, real) / samples.length;
+
+  // Every property separately, and every combination of values as one more
+  const withAll = samples.map(sample => ({
+    ...sample,
+    properties: {
+      ...sample.properties,
+      [ALL_PROPERTIES]: Object.keys(sample.properties).sort().map(key => sample.properties[key]).join('|'),
+    },
+  }));
+  const properties = [...new Set(withAll.flatMap(sample => Object.keys(sample.properties)))].sort();
+
+  const differences: PropertyDifference[] = [];
+  for (const property of properties) {
+    const realCounts = countValues(withAll.filter(sample => !sample.isAI), property);
+    const aiCounts = countValues(withAll.filter(sample => sample.isAI), property);
+    const values = new Set([...Object.keys(realCounts), ...Object.keys(aiCounts)]);
+    if (values.size <= 1) continue;
+    const accuracy = guessFromProperty(withAll, property);
+    differences.push({
+      property,
+      real: realCounts,
+      ai: aiCounts,
+      accuracy,
+      pValue: binomialTail(samples.length, Math.round(accuracy * samples.length), chance),
+    });
+  }
+
+  const measureNames = [...new Set(samples.flatMap(sample => Object.keys(sample.measures)))].sort();
+  const measures: MeasureDifference[] = [];
+  for (const property of measureNames) {
+    const measured = samples.filter(sample => property in sample.measures);
+    if (new Set(measured.map(sample => sample.measures[property])).size <= 1) continue;
+    const accuracy = guessFromThreshold(measured, property);
+    const valuesOf = (isAI: boolean) => measured.filter(sample => sample.isAI === isAI).map(sample => sample.measures[property]);
+    measures.push({
+      property,
+      real: summarize(valuesOf(false)),
+      ai: summarize(valuesOf(true)),
+      stump: fitStump(measured.map(({ measures, isAI }) => ({ value: measures[property], isAI })).sort((a, b) => a.value - b.value)),
+      accuracy,
+      pValue: binomialTail(measured.length, Math.round(accuracy * measured.length), chance),
+    });
+  }
+
+  // Bonferroni: trying many properties and measures makes one of them lucky
+  const threshold = SIGNIFICANCE / Math.max(1, properties.length + measureNames.length);
+  const beatsChance = [...differences, ...measures].filter(difference => difference.accuracy > chance && difference.pValue < threshold);
+  return { category, real, ai, chance, differences, measures, beatsChance };
+};
+
+const formatPercent = (share: number): string => `${Math.round(share * 100)}%`;
+
+// The most common values, e.g. "1600x1600 ×12, 900x900 ×3, 4 more"
+const formatCounts = (counts: Record<string, number>): string => {
+  const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const shown = sorted.slice(0, 3).map(([value, count]) => `${value} ×${count}`);
+  return sorted.length > 3 ? `${shown.join(', ')}, ${sorted.length - 3} more` : shown.join(', ');
+};
+
+// Up to three decimal places, for bytes per pixel
+const formatMeasure = (value: number): string => String(Number(value.toFixed(3)));
+
+const formatRange = ({ min, median, max }: MeasureRange): string =>
+  `${formatMeasure(min)}–${formatMeasure(max)}, median ${formatMeasure(median)}`;
+
+const formatStump = ({ threshold, aboveIsAI }: Stump): string =>
+  threshold === -Infinity ? 'no threshold' : `AI ${aboveIsAI ? 'above' : 'at or below'} ${formatMeasure(threshold)}`;
+
+export const formatImageAudit = (audits: CategoryAudit[]): string => {
+  if (audits.length === 0) return 'No images in the catalog.';
+  return audits
+    .map(({ category, real, ai, chance, differences, measures, beatsChance }) => [
+      `${category}: ${real} real, ${ai} AI, chance ${formatPercent(chance)} — ${beatsChance.length > 0 ? 'FAIL' : 'ok'}`,
+      ...(differences.length === 0 ? ['  Real and AI files have identical properties'] : differences.flatMap(difference => [
+        `  ${difference.property}: guessed ${formatPercent(difference.accuracy)}${beatsChance.includes(difference) ? ', beats chance' : ''}`,
+        // Every property's values, joined, are too long to read; the lines above list them
+        ...(difference.property === ALL_PROPERTIES ? [] : [
+          `    real  ${formatCounts(difference.real)}`,
+          `    AI    ${formatCounts(difference.ai)}`,
+        ]),
+      ])),
+      ...measures.flatMap(measure => [
+        `  ${measure.property}: guessed ${formatPercent(measure.accuracy)} with ${formatStump(measure.stump)}${beatsChance.includes(measure) ? ', beats chance' : ''}`,
+        `    real  ${formatRange(measure.real)}`,
+        `    AI    ${formatRange(measure.ai)}`,
+      ]),
+    ].join('\n'))
+    .join('\n\n');
+};
+
+export interface ImageAuditOptions {
+  imagesRoot: string;
+  cacheDir?: string; // The catalog plugin's variant cache; missing variants are encoded into it
+  sources?: boolean; // Audit the source files instead of the published ones
+  category?: string;
+}
+
+/**
+ * Audits the image folder, per category. Reads what the catalog publishes, encoding any
+ * variant that isn't cached yet, or with `sources` the files as they are in the folder.
+ */
+export const auditImages = async ({ imagesRoot, cacheDir = DEFAULT_VARIANT_CACHE_DIR, sources = false, category }: ImageAuditOptions): Promise<CategoryAudit[]> => {
+  const { entries, sourceFiles, variants } = await buildCatalog(directoryImageSource(imagesRoot), message => console.warn(message));
+  const cache = createVariantCache(cacheDir);
+  const read = (file: string) => fs.readFile(path.join(imagesRoot, file));
+
+  const byCategory = new Map<string, AuditSample[]>();
+  for (const entry of entries) {
+    if (category && entry.category !== category) continue;
+    const file = sourceFiles.get(entry.id)!;
+    const properties: ImageProperties = {};
+    const measures: ImageMeasures = {};
+    // Every file of the image separately: each variant and the placeholder, or what they are made from
+    const lqip = entry.lqipSrc ? { src: entry.lqipSrc, variant: variants.get(path.basename(entry.lqipSrc))! } : null;
+    const files = sources
+      ? [
+        { label: 'source', read: () => read(file) },
+        ...(lqip ? [{ label: 'placeholder', read: () => read(lqip.variant.file) }] : []),
+      ]
+      : [...Object.values(entry.variants).flat(), ...(lqip ? [lqip.src] : [])].map(src => {
+        const fileName = path.basename(src);
+        const variant = variants.get(fileName)!;
+        return {
+          label: src === lqip?.src ? 'placeholder' : `${variant.format} ${variant.width}w`,
+          read: () => cache.get(fileName, () => read(variant.file), variant),
+        };
+      });
+    for (const { label, read: readContents } of files) {
+      const contents = await readContents();
+      for (const [property, value] of Object.entries(await readFileProperties(contents))) {
+        properties[`${label} ${property}`] = value;
+      }
+      for (const [measure, value] of Object.entries(await readFileMeasures(contents))) {
+        measures[`${label} ${measure}`] = value;
+      }
+    }
+    const samples = byCategory.get(entry.category) ?? [];
+    samples.push({ file, isAI: parseImagePath(file)?.type === 'ai', properties, measures });
+    byCategory.set(entry.category, samples);
+  }
+
+  return [...byCategory.keys()].sort().map(name => auditCategory(name, byCategory.get(name)!));
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildCatalog, findCatalogImages, ImageSource, parseImagePath } from './imageCatalog';
+import { unsealAnswer } from '../src/data/answerSeal';
+import { IMAGE_WIDTHS } from '../src/data/imageVariants';
+import { LQIP_WIDTH } from './imageVariants';
+
+const source = (files: Record<string, string>): ImageSource => ({
+  listFiles: async () => Object.keys(files),
+  readFile: async relativePath => Buffer.from(files[relativePath]),
+});
+
+describe('parseImagePath', () => {
+  it('reads category, type and name', () => {
+    expect(parseImagePath('people/real/1.jpg')).toEqual({ category: 'people', type: 'real', name: '1', retired: false });
+    expect(parseImagePath('nature\\ai\\lake.jpg')).toEqual({ category: 'nature', type: 'ai', name: 'lake', retired: false });
+  });
+
+  it('reads retired images', () => {
+    expect(parseImagePath('people/ai/retired/4.jpg')).toEqual({ category: 'people', type: 'ai', name: '4', retired: true });
+    expect(parseImagePath('people/ai/retired/lqip/4.jpg')).toBeNull();
+  });
+
+  it('skips placeholders in lqip folders', () => {
+    expect(parseImagePath('people/real/lqip/1.jpg')).toBeNull();
+  });
+
+  it('skips anything outside the category/type layout', () => {
+    expect(parseImagePath('people/fake/1.jpg')).toBeNull();
+    expect(parseImagePath('people/real/1.png')).toBeNull();
+    expect(parseImagePath('people/real/1.json')).toBeNull();
+    expect(parseImagePath('real/1.jpg')).toBeNull();
+  });
+});
+
+describe('findCatalogImages', () => {
+  it('pairs each image with its placeholder and sidecar when they are listed', () => {
+    const images = findCatalogImages([
+      'people/real/2.jpg',
+      'people/real/1.jpg',
+      'people/real/lqip/1.jpg',
+      'people/real/1.json',
+      'people/ai/lqip/3.jpg',
+    ]);
+
+    expect(images).toEqual([
+      {
+        category: 'people',
+        type: 'real',
+        name: '1',
+        retired: false,
+        file: 'people/real/1.jpg',
+        lqipFile: 'people/real/lqip/1.jpg',
+        metadataFile: 'people/real/1.json',
+      },
+      { category: 'people', type: 'real', name: '2', retired: false, file: 'people/real/2.jpg', lqipFile: undefined, metadataFile: undefined },
+    ]);
+  });
+});
+
+describe('buildCatalog', () => {
+  const files = {
+    'people/real/1.jpg': 'real one',
+    'people/real/lqip/1.jpg': 'real one, blurred',
+    'people/ai/1.jpg': 'ai one',
+    'city/ai/1.jpg': 'ai two',
+  };
+
+  it('derives ids from file contents, not paths', async () => {
+    const first = await buildCatalog(source(files), () => {});
+    const moved = await buildCatalog(source({
+      'nature/real/a.jpg': 'real one',
+      'nature/ai/b.jpg': 'ai one',
+      'nature/ai/c.jpg': 'ai two',
+    }), () => {});
+
+    expect(first.entries.map(entry => entry.id)).toEqual(moved.entries.map(entry => entry.id));
+    expect(first.key).toBe(moved.key);
+  });
+
+  it('publishes placeholders without making them catalog entries', async () => {
+    const { entries, variants } = await buildCatalog(source(files), () => {});
+    const real = entries.find(entry => entry.category === 'people' && entry.lqipSrc);
+
+    expect(entries).toHaveLength(3);
+    expect(variants.get(real!.lqipSrc!.replace('/img/', ''))).toEqual({
+      file: 'people/real/lqip/1.jpg',
+      width: LQIP_WIDTH,
+      format: 'jpeg',
+    });
+  });
+
+  it('publishes every width and format of each image under opaque names, never the source', async () => {
+    const { entries, variants, sourceFiles } = await buildCatalog(source(files), () => {});
+    const real = entries.find(entry => entry.category === 'people' && entry.lqipSrc)!;
+
+    expect(sourceFiles.get(real.id)).toBe('people/real/1.jpg');
+    expect(real.src).toBe(real.variants.jpeg[IMAGE_WIDTHS.length - 1]);
+    expect(real.variants.avif).toHaveLength(IMAGE_WIDTHS.length);
+    expect(real.variants.avif[0]).toMatch(/^\/img\/[0-9a-f]{16}\.avif$/);
+    expect(real.variants.avif[0]).not.toContain(real.id);
+    expect(variants.get(real.variants.webp[1].replace('/img/', ''))).toEqual({
+      file: 'people/real/1.jpg',
+      width: IMAGE_WIDTHS[1],
+      format: 'webp',
+    });
+    // Plus the one placeholder
+    expect(variants.size).toBe(entries.length * IMAGE_WIDTHS.length * 3 + 1);
+  });
+
+  it('keeps retired images in the catalog, marked, with their placeholders', async () => {
+    const { entries, variants } = await buildCatalog(source({
+      ...files,
+      'people/ai/retired/2.jpg': 'ai three',
+      'people/ai/retired/lqip/2.jpg': 'ai three, blurred',
+    }), () => {});
+    const retired = entries.filter(entry => entry.retired);
+
+    expect(entries).toHaveLength(4);
+    expect(retired).toHaveLength(1);
+    expect(variants.get(retired[0].lqipSrc!.replace('/img/', ''))?.file).toBe('people/ai/retired/lqip/2.jpg');
+  });
+
+  it('sorts entries by id and seals the answer', async () => {
+    const { entries, key } = await buildCatalog(source(files), () => {});
+
+    expect(entries.map(entry => entry.id)).toEqual(entries.map(entry => entry.id).sort());
+    const isAI = (category: string) => entries
+      .filter(entry => entry.category === category)
+      .map(entry => unsealAnswer(key, entry.id, entry.seal))
+      .sort();
+    expect(isAI('people')).toEqual([false, true]);
+    expect(isAI('city')).toEqual([true]);
+  });
+
+  it('skips duplicate images with a warning', async () => {
+    const warn = vi.fn();
+    const { entries } = await buildCatalog(source({ ...files, 'nature/real/copy.jpg': 'real one' }), warn);
+
+    expect(entries).toHaveLength(3);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('nature/real/copy.jpg'));
+  });
+
+  it('gives every image its own metadata file, sidecar or not', async () => {
+    const { entries, generated } = await buildCatalog(source(files), () => {});
+    const metaFiles = entries.map(entry => entry.metaSrc.replace('/img/', ''));
+
+    expect(new Set(metaFiles).size).toBe(entries.length);
+    expect(metaFiles.map(file => generated.get(file))).toEqual(['{}', '{}', '{}']);
+  });
+
+  it('fails on invalid sidecars, listing every problem', async () => {
+    const broken = {
+      ...files,
+      'people/real/1.json': '{"prompt": "a cat"}',
+      'people/ai/1.json': 'not json',
+    };
+
+    await expect(buildCatalog(source(broken), () => {})).rejects.toThrow(
+      /people\/ai\/1\.json: not valid JSON[\s\S]*people\/real\/1\.json: prompt is only allowed on AI images/,
+    );
+  });
+});
@@ -0,0 +1,379 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { ImageFormat } from '../src/types';
+import { sealAnswer } from '../src/data/answerSeal';
+import { validateImageMetadata } from '../src/data/imageMetadata';
+import { IMAGE_FORMAT_EXTENSIONS, IMAGE_FORMAT_TYPES, IMAGE_FORMATS, IMAGE_WIDTHS } from '../src/data/imageVariants';
+import { createVariantCache, LQIP_WIDTH, VARIANT_PROFILE, VariantCache, VariantSpec } from './imageVariants';
+
+// Source images live in <root>/<category>/<real|ai>/<name>.jpg with their
+// placeholders in <root>/<category>/<real|ai>/lqip/<name>.jpg and optional
+// metadata sidecars in <root>/<category>/<real|ai>/<name>.json. Retired images
+// keep the same layout under <root>/<category>/<real|ai>/retired/: they are
+// still published, so past rounds can show them, but never dealt. None of that
+// structure is published: every file is served as /img/<content-hash>.<ext> and
+// the client receives a virtual module listing opaque entries only. Source images
+// themselves aren't published either, only their re-encoded variants (imageVariants.ts).
+
+const VIRTUAL_MODULE_ID = 'virtual:image-catalog';
+const RESOLVED_VIRTUAL_MODULE_ID = '\0' + VIRTUAL_MODULE_ID;
+const PUBLIC_DIR = 'img';
+const IMAGE_EXTENSION = '.jpg';
+const METADATA_EXTENSION = '.json';
+const LQIP_SUBFOLDER_NAME = 'lqip';
+const RETIRED_SUBFOLDER_NAME = 'retired';
+export const DEFAULT_VARIANT_CACHE_DIR = 'node_modules/.cache/image-variants';
+
+export interface ParsedImagePath {
+  category: string;
+  type: 'real' | 'ai';
+  name: string;
+  retired: boolean;
+}
+
+// Paths are relative to the image root, with forward slashes
+export interface CatalogSourceImage extends ParsedImagePath {
+  file: string;
+  lqipFile?: string;
+  metadataFile?: string;
+}
+
+/**
+ * Where the catalog is read from: the image folder on disk, or a fixture list in tests.
+ */
+export interface ImageSource {
+  listFiles(): Promise<string[]>; // Every file, relative to the image root, with forward slashes
+  readFile(relativePath: string): Promise<Buffer>;
+}
+
+export interface CatalogEntry {
+  id: string;
+  src: string; // The widest JPEG variant
+  variants: Record<ImageFormat, string[]>; // One URL per width in IMAGE_WIDTHS
+  lqipSrc?: string;
+  category: string;
+  seal: number;
+  metaSrc: string;
+  retired?: true; // Out of rotation, kept for past rounds
+}
+
+export interface PublishedVariant extends VariantSpec {
+  file: string; // The source image, relative to the image root
+}
+
+export interface BuiltCatalog {
+  key: string;
+  entries: CatalogEntry[];
+  // Image id -> source path relative to the image root
+  sourceFiles: Map<string, string>;
+  // Published file name (e.g. 3f9a....avif) -> the variant to encode, of an image or its placeholder
+  variants: Map<string, PublishedVariant>;
+  // Published file name (e.g. 3f9a....json) -> generated contents
+  generated: Map<string, string>;
+}
+
+/**
+ * Parses a path relative to the image root, e.g. `people/real/1.jpg` or `people/real/retired/1.jpg`.
+ * Returns null for LQIP files and anything outside the category/type layout.
+ */
+export const parseImagePath = (relativePath: string): ParsedImagePath | null => {
+  const parts = relativePath.split(/[\\/]/).filter(Boolean);
+  // Placeholders sit one level deeper (people/real/lqip/1.jpg) and are not images in their own right
+  const retired = parts.length === 4 && parts[2] === RETIRED_SUBFOLDER_NAME;
+  if (parts.length !== 3 && !retired) return null;
+
+  const [category, type] = parts;
+  const filename = parts[parts.length - 1];
+  if (type !== 'real' && type !== 'ai') return null;
+  if (!filename.endsWith(IMAGE_EXTENSION)) return null;
+
+  return { category, type, name: filename.slice(0, -IMAGE_EXTENSION.length), retired };
+};
+
+/**
+ * The folder an image's files sit in, e.g. `people/real` or `people/real/retired`.
+ */
+export const getImageDir = ({ category, type, retired }: Omit<ParsedImagePath, 'name'>): string =>
+  retired ? `${category}/${type}/${RETIRED_SUBFOLDER_NAME}` : `${category}/${type}`;
+
+export const getImagePath = (image: ParsedImagePath): string => `${getImageDir(image)}/${image.name}${IMAGE_EXTENSION}`;
+
+/**
+ * Where an image's placeholder belongs, e.g. `people/real/lqip/1.jpg` for `people/real/1.jpg`.
+ */
+export const getLqipPath = (image: ParsedImagePath): string =>
+  `${getImageDir(image)}/${LQIP_SUBFOLDER_NAME}/${image.name}${IMAGE_EXTENSION}`;
+
+export const getMetadataPath = (image: ParsedImagePath): string =>
+  `${getImageDir(image)}/${image.name}${METADATA_EXTENSION}`;
+
+/**
+ * Reads the catalog from a folder. Hidden files and folders are skipped.
+ */
+export const directoryImageSource = (imagesRoot: string): ImageSource => {
+  const walk = async (relativeDir: string): Promise<string[]> => {
+    const items = await fs.readdir(path.join(imagesRoot, relativeDir), { withFileTypes: true });
+    const files: string[] = [];
+    for (const item of items) {
+      if (item.name.startsWith('.')) continue;
+      const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+      if (item.isDirectory()) {
+        files.push(...await walk(relativePath));
+      } else {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  };
+
+  return {
+    listFiles: () => walk(''),
+    readFile: relativePath => fs.readFile(path.join(imagesRoot, relativePath)),
+  };
+};
+
+/**
+ * Picks the original images out of a file list and pairs each with its LQIP and sidecar, if listed.
+ */
+export const findCatalogImages = (files: string[]): CatalogSourceImage[] => {
+  const listed = new Set(files);
+  const images: CatalogSourceImage[] = [];
+
+  for (const file of [...files].sort()) {
+    const parsed = parseImagePath(file);
+    if (!parsed) continue;
+
+    const lqipFile = getLqipPath(parsed);
+    const metadataFile = getMetadataPath(parsed);
+    images.push({
+      ...parsed,
+      file: getImagePath(parsed),
+      lqipFile: listed.has(lqipFile) ? lqipFile : undefined,
+      metadataFile: listed.has(metadataFile) ? metadataFile : undefined,
+    });
+  }
+
+  return images;
+};
+
+export const hashContents = (contents: string | Buffer): string =>
+  createHash('sha256').update(contents).digest('hex').slice(0, 16);
+
+/**
+ * Reads and validates a metadata sidecar. Returns the problems found instead of throwing,
+ * so a build reports every malformed sidecar at once.
+ */
+export const readMetadata = async (
+  imageSource: ImageSource,
+  source: CatalogSourceImage,
+): Promise<{ metadata: object; errors: string[] }> => {
+  if (!source.metadataFile) return { metadata: {}, errors: [] };
+  let raw: unknown;
+  try {
+    raw = JSON.parse((await imageSource.readFile(source.metadataFile)).toString('utf8'));
+  } catch (error) {
+    return { metadata: {}, errors: [`not valid JSON (${(error as Error).message})`] };
+  }
+  return { metadata: raw as object, errors: validateImageMetadata(raw, source.type === 'ai') };
+};
+
+/**
+ * Hashes every image, validates the sidecars and builds the published catalog.
+ * Throws if any sidecar is invalid.
+ */
+export const buildCatalog = async (imageSource: ImageSource, warn: (message: string) => void): Promise<BuiltCatalog> => {
+  const sources = findCatalogImages(await imageSource.listFiles());
+  const hashFile = async (file: string) => hashContents(await imageSource.readFile(file));
+  // Hash one file at a time; reading the whole catalog in parallel would hold it all in memory
+  const hashed: Array<{ source: CatalogSourceImage; hash: string; lqipHash?: string }> = [];
+  for (const source of sources) {
+    hashed.push({
+      source,
+      hash: await hashFile(source.file),
+      lqipHash: source.lqipFile ? await hashFile(source.lqipFile) : undefined,
+    });
+  }
+
+  // The key only depends on the catalog contents, so identical inputs give identical builds
+  const key = createHash('sha256')
+    .update(hashed.map(({ hash }) => hash).sort().join(''))
+    .digest('hex')
+    .slice(0, 16);
+
+  const entries: CatalogEntry[] = [];
+  const sourceFiles = new Map<string, string>();
+  const variants = new Map<string, PublishedVariant>();
+  // Variant names only depend on what they are made from, so they are known before encoding
+  const addVariant = (fileHash: string, file: string, spec: VariantSpec): string => {
+    const fileName = `${hashContents(`${fileHash}:${VARIANT_PROFILE}:${spec.width}:${spec.format}`)}${IMAGE_FORMAT_EXTENSIONS[spec.format]}`;
+    variants.set(fileName, { file, ...spec });
+    return `/${PUBLIC_DIR}/${fileName}`;
+  };
+  const generated = new Map<string, string>();
+  const metadataErrors: string[] = [];
+
+  for (const { source, hash, lqipHash } of hashed) {
+    if (sourceFiles.has(hash)) {
+      warn(`Skipping ${source.file}: identical to ${sourceFiles.get(hash)}`);
+      continue;
+    }
+    sourceFiles.set(hash, source.file);
+
+    const urls = Object.fromEntries(IMAGE_FORMATS.map(format => [
+      format,
+      IMAGE_WIDTHS.map(width => addVariant(hash, source.file, { width, format })),
+    ])) as Record<ImageFormat, string[]>;
+    const lqipSrc = source.lqipFile && lqipHash
+      ? addVariant(lqipHash, source.lqipFile, { width: LQIP_WIDTH, format: 'jpeg' })
+      : undefined;
+
+    // Every image gets a metadata file, empty if it has no sidecar, so having one says nothing
+    // about the answer. The name mixes in the image id so identical sidecars don't share a URL.
+    const { metadata, errors } = await readMetadata(imageSource, source);
+    metadataErrors.push(...errors.map(error => `${source.metadataFile}: ${error}`));
+    const metadataJson = JSON.stringify(metadata);
+    const metadataFileName = `${hashContents(hash + metadataJson)}${METADATA_EXTENSION}`;
+    generated.set(metadataFileName, metadataJson);
+
+    entries.push({
+      id: hash,
+      src: urls.jpeg[urls.jpeg.length - 1],
+      variants: urls,
+      lqipSrc,
+      category: source.category,
+      seal: sealAnswer(key, hash, source.type === 'ai'),
+      metaSrc: `/${PUBLIC_DIR}/${metadataFileName}`,
+      retired: source.retired || undefined,
+    });
+  }
+
+  if (metadataErrors.length > 0) {
+    throw new Error(`Invalid image metadata:\n${metadataErrors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  // Sort by id so the module never reflects the folder layout
+  entries.sort((a, b) => a.id.localeCompare(b.id));
+
+  return { key, entries, sourceFiles, variants, generated };
+};
+
+// Lets other plugins, like the service worker's, read the catalog this build publishes
+export interface ImageCatalogApi {
+  getCatalog(): Promise<BuiltCatalog>;
+}
+
+export const IMAGE_CATALOG_PLUGIN_NAME = 'image-catalog';
+
+/**
+ * Runs tasks with at most `limit` in flight. Encoding is CPU-bound, so one per core.
+ */
+const runLimited = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+export interface ImageCatalogOptions {
+  root: string;
+  cacheDir?: string; // Encoded variants, kept between builds; relative to the project root
+}
+
+/**
+ * Vite plugin that publishes the image catalog under content-hashed names.
+ * Exposes `virtual:image-catalog`, serves /img/* in dev, encoding variants on first
+ * request, and writes every file on build.
+ */
+export const imageCatalog = (options: ImageCatalogOptions): Plugin => {
+  let config: ResolvedConfig;
+  let imagesRoot = options.root;
+  let variantCache: VariantCache;
+  let catalogPromise: Promise<BuiltCatalog> | null = null;
+
+  const readVariant = (fileName: string, variant: PublishedVariant) =>
+    variantCache.get(fileName, () => fs.readFile(path.join(imagesRoot, variant.file)), variant);
+
+  const getCatalog = () => {
+    if (!catalogPromise) {
+      catalogPromise = buildCatalog(
+        directoryImageSource(imagesRoot),
+        message => config.logger.warn(`[image-catalog] ${message}`),
+      );
+    }
+    return catalogPromise;
+  };
+
+  const api: ImageCatalogApi = { getCatalog };
+
+  return {
+    name: IMAGE_CATALOG_PLUGIN_NAME,
+    api,
+
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+      imagesRoot = path.resolve(config.root, options.root);
+      variantCache = createVariantCache(path.resolve(config.root, options.cacheDir ?? DEFAULT_VARIANT_CACHE_DIR));
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_MODULE_ID ? RESOLVED_VIRTUAL_MODULE_ID : null;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_VIRTUAL_MODULE_ID) return null;
+      const { key, entries } = await getCatalog();
+      return [
+        `export const catalogKey = ${JSON.stringify(key)};`,
+        `export default ${JSON.stringify(entries)};`,
+      ].join('\n');
+    },
+
+    configureServer(server) {
+      server.watcher.add(imagesRoot);
+      const onImagesChanged = (file: string) => {
+        if (!path.resolve(file).startsWith(imagesRoot)) return;
+        catalogPromise = null;
+        const module = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_MODULE_ID);
+        if (module) server.moduleGraph.invalidateModule(module);
+        server.ws.send({ type: 'full-reload' });
+      };
+      server.watcher.on('add', onImagesChanged);
+      server.watcher.on('unlink', onImagesChanged);
+      server.watcher.on('change', onImagesChanged);
+
+      server.middlewares.use(`/${PUBLIC_DIR}`, async (req, res, next) => {
+        const fileName = (req.url ?? '').split('?')[0].replace(/^\//, '');
+        const { variants, generated } = await getCatalog();
+        const contents = generated.get(fileName);
+        if (contents !== undefined) {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(contents);
+          return;
+        }
+        const variant = variants.get(fileName);
+        if (!variant) return next();
+        res.setHeader('Content-Type', IMAGE_FORMAT_TYPES[variant.format]);
+        res.end(await readVariant(fileName, variant));
+      });
+    },
+
+    async writeBundle() {
+      const { variants, generated } = await getCatalog();
+      const outDir = path.resolve(config.root, config.build.outDir, PUBLIC_DIR);
+      await fs.mkdir(outDir, { recursive: true });
+      for (const [fileName, contents] of generated) {
+        await fs.writeFile(path.join(outDir, fileName), contents);
+      }
+      // Only variants missing from the cache are encoded, which takes a while on a fresh checkout
+      config.logger.info(`[image-catalog] Writing ${variants.size} image variants`);
+      await runLimited([...variants], os.availableParallelism(), async ([fileName, variant]) => {
+        await fs.writeFile(path.join(outDir, fileName), await readVariant(fileName, variant));
+      });
+      config.logger.info(`[image-catalog] Published ${variants.size + generated.size} files to /${PUBLIC_DIR}`);
+    },
+  };
+};
@@ -0,0 +1,41 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { directoryImageSource, findCatalogImages, getLqipPath } from './imageCatalog';
+import { encodeLqip } from './imageVariants';
+
+// Brings files into the image folder's layout: new sources as .jpg, and their placeholders.
+// The published files are normalized later, by the catalog plugin; these steps only get the
+// folder into the layout it reads.
+
+export interface PipelineLog {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+// Formats a new image may arrive in
+export const IMPORTABLE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.avif'];
+// Sources are re-encoded again when published, so keep as much of the picture as is reasonable
+const SOURCE_QUALITY = 90;
+
+/**
+ * Turns any importable image into a source: upright, as JPEG, without its metadata.
+ */
+export const normalizeSource = (input: Buffer): Promise<Buffer> =>
+  sharp(input).rotate().jpeg({ quality: SOURCE_QUALITY, mozjpeg: true }).toBuffer();
+
+/**
+ * Makes a placeholder for every source that has none. Returns the placeholders made.
+ */
+export const generateLqips = async (imagesRoot: string, log: PipelineLog): Promise<string[]> => {
+  const generated: string[] = [];
+  for (const image of findCatalogImages(await directoryImageSource(imagesRoot).listFiles())) {
+    if (image.lqipFile) continue;
+    const lqipFile = getLqipPath(image);
+    await fs.mkdir(path.dirname(path.join(imagesRoot, lqipFile)), { recursive: true });
+    await fs.writeFile(path.join(imagesRoot, lqipFile), await encodeLqip(await fs.readFile(path.join(imagesRoot, image.file))));
+    log.info(`Generated ${lqipFile}`);
+    generated.push(lqipFile);
+  }
+  return generated;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { encodeVariant } from './imageVariants';
+
+// A small camera JPEG, with the kind of EXIF that gives a source away
+const source = () =>
+  sharp({ create: { width: 120, height: 90, channels: 3, background: '#804020' } })
+    .jpeg({ quality: 95 })
+    .withMetadata({ exif: { IFD0: { Make: 'Canon', Software: 'Midjourney' } } })
+    .toBuffer();
+
+describe('encodeVariant', () => {
+  it('encodes every format as a square of exactly the asked width, upscaling small sources', async () => {
+    for (const format of ['avif', 'webp', 'jpeg'] as const) {
+      const metadata = await sharp(await encodeVariant(await source(), { width: 240, format })).metadata();
+      expect({ format: metadata.format, width: metadata.width, height: metadata.height })
+        .toEqual({ format: format === 'avif' ? 'heif' : format, width: 240, height: 240 });
+    }
+  });
+
+  it('strips every kind of metadata', async () => {
+    expect((await sharp(await source()).metadata()).exif).toBeDefined();
+
+    for (const format of ['avif', 'webp', 'jpeg'] as const) {
+      const metadata = await sharp(await encodeVariant(await source(), { width: 60, format })).metadata();
+      expect([metadata.exif, metadata.icc, metadata.xmp, metadata.iptc]).toEqual([undefined, undefined, undefined, undefined]);
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp, { type Sharp } from 'sharp';
+import { ImageFormat } from '../src/types';
+
+// Encodes the published variants of each source image and placeholder. Players only ever
+// download these, and every one is made to the same target profile: decoded, centre-cropped
+// to a square (what the game cards show anyway), resized to a fixed width, converted to sRGB
+// and encoded with fixed settings, so the chroma subsampling and JPEG quantization tables are
+// the same for every file. sharp writes no EXIF, XMP, IPTC or ICC data. Nothing about the
+// original file, its camera, generator, encoder, resolution or aspect ratio, reaches the page.
+// `pnpm verify-images` checks that real and AI images still can't be told apart this way.
+
+// Part of every variant's published name. Bump it when the profile changes, so browsers and
+// the variant cache don't keep the old encodes.
+export const VARIANT_PROFILE = 'v2';
+
+// Placeholders are published through the same profile, at this width
+export const LQIP_WIDTH = 40;
+const LQIP_BLUR_SIGMA = 2;
+
+export interface VariantSpec {
+  width: number;
+  format: ImageFormat;
+}
+
+const ENCODERS: Record<ImageFormat, (image: Sharp) => Sharp> = {
+  // Effort 2 is several times faster than the default for a few percent in size
+  avif: image => image.avif({ quality: 50, effort: 2, chromaSubsampling: '4:2:0', bitdepth: 8 }),
+  webp: image => image.webp({ quality: 75, smartSubsample: false }),
+  jpeg: image => image.jpeg({
+    quality: 80,
+    mozjpeg: true,
+    chromaSubsampling: '4:2:0',
+    quantisationTable: 3, // mozjpeg's default, pinned so a sharp upgrade can't change it for new images only
+    progressive: true,
+  }),
+};
+
+const toProfile = (input: Buffer, width: number): Sharp =>
+  sharp(input)
+    .rotate()
+    .resize({ width, height: width, fit: 'cover', position: 'centre' })
+    .toColourspace('srgb')
+    .removeAlpha();
+
+/**
+ * Encodes one variant: a square of exactly `width` pixels. Smaller sources are upscaled,
+ * so a variant's size never reveals its source's.
+ */
+export const encodeVariant = (input: Buffer, { width, format }: VariantSpec): Promise<Buffer> =>
+  ENCODERS[format](toProfile(input, width)).toBuffer();
+
+/**
+ * Makes the blurred placeholder that sits next to a source image, in the same profile.
+ */
+export const encodeLqip = (input: Buffer): Promise<Buffer> =>
+  ENCODERS.jpeg(toProfile(input, LQIP_WIDTH).blur(LQIP_BLUR_SIGMA)).toBuffer();
+
+export interface VariantCache {
+  get(fileName: string, readSource: () => Promise<Buffer>, spec: VariantSpec): Promise<Buffer>;
+}
+
+/**
+ * Keeps encoded variants on disk under their published names, which already say which
+ * source, width, format and profile they are, so a cached file is never stale.
+ */
+export const createVariantCache = (cacheDir: string): VariantCache => ({
+  get: async (fileName, readSource, spec) => {
+    const cached = path.join(cacheDir, fileName);
+    try {
+      return await fs.readFile(cached);
+    } catch {
+      // Not encoded yet
+    }
+    const encoded = await encodeVariant(await readSource(), spec);
+    await fs.mkdir(cacheDir, { recursive: true });
+    await fs.writeFile(cached, encoded);
+    return encoded;
+  },
+});
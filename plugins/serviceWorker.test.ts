@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildPrecacheManifest } from './serviceWorker';
+
+const variants = { avif: [], webp: [], jpeg: [] };
+
+const catalog = (key: string) => ({
+  key,
+  entries: [
+    { id: 'b', src: '/img/b.jpg', variants, lqipSrc: '/img/lb.jpg', category: 'people', seal: 0, metaSrc: '/img/mb.json' },
+    { id: 'a', src: '/img/a.jpg', variants, category: 'people', seal: 0, metaSrc: '/img/ma.json' },
+  ],
+});
+
+describe('buildPrecacheManifest', () => {
+  it('precaches the page, the built assets, the listed public files and every placeholder', () => {
+    const manifest = buildPrecacheManifest(
+      catalog('k1'),
+      ['index.html', 'assets/index-1.js', 'assets/index-1.js.map', 'assets/index-1.css', 'sw.js'],
+      ['/favicon.ico'],
+    );
+
+    expect(manifest.shell).toEqual(['/', '/assets/index-1.css', '/assets/index-1.js', '/favicon.ico']);
+    expect(manifest.lqips).toEqual(['/img/lb.jpg']);
+    expect(manifest.catalogKey).toBe('k1');
+  });
+
+  it('changes version with the build and with the catalog', () => {
+    const version = (key: string, files: string[]) => buildPrecacheManifest(catalog(key), files, []).version;
+
+    expect(version('k1', ['assets/index-1.js'])).toBe(version('k1', ['assets/index-1.js']));
+    expect(version('k1', ['assets/index-1.js'])).not.toBe(version('k1', ['assets/index-2.js']));
+    expect(version('k1', ['assets/index-1.js'])).not.toBe(version('k2', ['assets/index-1.js']));
+  });
+});
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { transformWithEsbuild, type Plugin, type ResolvedConfig } from 'vite';
+import { PrecacheManifest } from '../src/serviceWorker/precache';
+import { BuiltCatalog, IMAGE_CATALOG_PLUGIN_NAME, ImageCatalogApi } from './imageCatalog';
+
+// Builds /sw.js on `vite build`: compiles the worker source and bakes in the precache
+// manifest, the files this build needs offline. Any change to those files, or to the image
+// catalog, changes the worker's bytes, so browsers install the new version on their next visit.
+
+const SERVICE_WORKER_FILE = 'sw.js';
+
+export interface ServiceWorkerOptions {
+  source: string; // Worker source, relative to the project root
+  publicFiles: string[]; // Files from public/ the page needs offline, e.g. /favicon.ico
+}
+
+/**
+ * Lists what the worker precaches. Bundle file names are relative to the output folder.
+ */
+export const buildPrecacheManifest = (
+  catalog: Pick<BuiltCatalog, 'key' | 'entries'>,
+  bundleFiles: string[],
+  publicFiles: string[],
+): PrecacheManifest => {
+  const shell = [
+    '/',
+    ...bundleFiles
+      .filter(file => !file.endsWith('.map') && file !== 'index.html' && file !== SERVICE_WORKER_FILE)
+      .map(file => `/${file}`),
+    ...publicFiles,
+  ].sort();
+  // Retired images only appear in past rounds, which don't need to work offline
+  const lqips = catalog.entries.flatMap(entry => (entry.lqipSrc && !entry.retired ? [entry.lqipSrc] : [])).sort();
+  const version = createHash('sha256')
+    .update([catalog.key, ...shell].join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+  return { version, catalogKey: catalog.key, shell, lqips };
+};
+
+/**
+ * Vite plugin that emits the service worker. Needs the image-catalog plugin for the placeholders.
+ */
+export const serviceWorker = (options: ServiceWorkerOptions): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post', // After the other plugins have added their files to the bundle
+
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+    },
+
+    async generateBundle(_, bundle) {
+      const catalogPlugin = config.plugins.find(plugin => plugin.name === IMAGE_CATALOG_PLUGIN_NAME);
+      if (!catalogPlugin) throw new Error('The service worker needs the image-catalog plugin');
+      const catalog = await (catalogPlugin.api as ImageCatalogApi).getCatalog();
+      const manifest = buildPrecacheManifest(catalog, Object.keys(bundle), options.publicFiles);
+
+      const sourcePath = path.resolve(config.root, options.source);
+      const { code } = await transformWithEsbuild(await fs.readFile(sourcePath, 'utf8'), sourcePath, {
+        loader: 'ts',
+        target: 'es2020',
+        minify: true,
+      });
+      this.emitFile({
+        type: 'asset',
+        fileName: SERVICE_WORKER_FILE,
+        source: `const PRECACHE=${JSON.stringify(manifest)};\n${code}`,
+      });
+      config.logger.info(
+        `[service-worker] Precaching ${manifest.shell.length} shell files and ${manifest.lqips.length} placeholders (version ${manifest.version})`,
+      );
+    },
+  };
+};
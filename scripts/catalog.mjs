@@ -0,0 +1,25 @@
+// Maintains the image folder (plugins/catalogCli.ts): imports new images, checks the layout,
+// retires images and reports coverage per category.
+//
+//   pnpm catalog add people ai ~/Downloads/*.png
+//   pnpm catalog validate [--fix]
+//   pnpm catalog retire people/ai/12.jpg
+//   pnpm catalog report
+import { createServer } from 'vite';
+
+const vite = await createServer({
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, ws: false },
+  optimizeDeps: { noDiscovery: true }, // Nothing runs in a browser, so there is nothing to pre-bundle
+});
+let exitCode = 1;
+try {
+  const { runCatalogCommand } = await vite.ssrLoadModule('/plugins/catalogCli.ts');
+  exitCode = await runCatalogCommand(process.argv.slice(2), 'images', {
+    info: message => console.log(message),
+    warn: message => console.error(message),
+  });
+} finally {
+  await vite.close();
+}
+process.exit(exitCode);
@@ -0,0 +1,25 @@
+// Prints which AI images fool players most and least often, per category, from the crowd
+// statistics the server keeps (server/crowdReport.ts).
+//
+//   pnpm crowd-report                     crowd.json, top 10 per ranking
+//   CROWD_FILE=/var/lib/realorai/crowd.json pnpm crowd-report -- --limit 25
+import { createServer } from 'vite';
+
+const limitFlag = process.argv.indexOf('--limit');
+const limit = limitFlag === -1 ? 10 : Number(process.argv[limitFlag + 1]);
+if (!Number.isInteger(limit) || limit < 1) {
+  console.error('--limit must be a positive whole number');
+  process.exit(1);
+}
+
+const vite = await createServer({
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, ws: false },
+  optimizeDeps: { noDiscovery: true }, // Nothing runs in a browser, so there is nothing to pre-bundle
+});
+try {
+  const { createCrowdReport } = await vite.ssrLoadModule('/server/crowdReport.ts');
+  console.log(await createCrowdReport({ imagesRoot: 'images', crowdFile: process.env.CROWD_FILE ?? 'crowd.json', limit }));
+} finally {
+  await vite.close();
+}
@@ -0,0 +1,22 @@
+// Generates the app icons the web app manifest and iOS need from public/realorai.png.
+// Run it again after changing the logo: node scripts/generate-pwa-icons.mjs
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+const SOURCE = path.join(PUBLIC_DIR, 'realorai.png'); // 512 x 512, also used as the large icon
+const ICONS_DIR = path.join(PUBLIC_DIR, 'icons');
+
+const ICONS = [
+  { file: 'icon-192.png', size: 192 },
+  { file: 'apple-touch-icon.png', size: 180, background: '#ffffff' }, // iOS shows transparency as black
+];
+
+await fs.mkdir(ICONS_DIR, { recursive: true });
+for (const { file, size, background } of ICONS) {
+  let image = sharp(SOURCE).resize(size, size);
+  if (background) image = image.flatten({ background });
+  await image.png().toFile(path.join(ICONS_DIR, file));
+  console.log(`Generated public/icons/${file}`);
+}
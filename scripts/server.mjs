@@ -0,0 +1,18 @@
+// Runs the leaderboard and crowd statistics server (server/main.ts). Vite loads it, so the
+// TypeScript and the image catalog resolve exactly as they do for the game.
+//
+//   pnpm server                           port 8787, data in leaderboard.json and crowd.json
+//   PORT=9000 LEADERBOARD_FILE=/var/lib/realorai/board.json CROWD_FILE=/var/lib/realorai/crowd.json pnpm server
+import { createServer } from 'vite';
+
+const vite = await createServer({
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, ws: false },
+  optimizeDeps: { noDiscovery: true }, // Nothing runs in a browser, so there is nothing to pre-bundle
+});
+const { startServer } = await vite.ssrLoadModule('/server/main.ts');
+await startServer({
+  port: Number(process.env.PORT ?? 8787),
+  leaderboardFile: process.env.LEADERBOARD_FILE ?? 'leaderboard.json',
+  crowdFile: process.env.CROWD_FILE ?? 'crowd.json',
+});
@@ -0,0 +1,36 @@
+// Checks that file properties alone (size, aspect ratio, chroma subsampling, quantization
+// tables, embedded metadata, ...) can't tell real images from AI ones, per category
+// (plugins/imageAudit.ts). Exits with an error if they can.
+//
+//   pnpm verify-images                          the published variants and placeholders
+//   pnpm verify-images -- --category people     one category
+//   pnpm verify-images -- --sources             the files in images/, before normalization
+//
+// Variants missing from the build's cache are encoded first, which takes a while on a fresh checkout.
+import { createServer } from 'vite';
+
+const categoryFlag = process.argv.indexOf('--category');
+const category = categoryFlag === -1 ? undefined : process.argv[categoryFlag + 1];
+if (categoryFlag !== -1 && !category) {
+  console.error('--category needs a category name');
+  process.exit(1);
+}
+
+const vite = await createServer({
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, ws: false },
+  optimizeDeps: { noDiscovery: true }, // Nothing runs in a browser, so there is nothing to pre-bundle
+});
+let failed = false;
+try {
+  const { auditImages, formatImageAudit } = await vite.ssrLoadModule('/plugins/imageAudit.ts');
+  const audits = await auditImages({ imagesRoot: 'images', sources: process.argv.includes('--sources'), category });
+  console.log(formatImageAudit(audits));
+  failed = audits.some(audit => audit.beatsChance.length > 0);
+} finally {
+  await vite.close();
+}
+if (failed) {
+  console.error('\nFile properties give answers away; see the categories marked FAIL.');
+  process.exit(1);
+}
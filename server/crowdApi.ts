@@ -0,0 +1,28 @@
+import { CROWD_API_PATH } from '../src/crowd/client';
+import { CrowdService, MAX_STATS_QUERY } from '../src/crowd/service';
+import { GuessOutcome } from '../src/crowd/stats';
+import { ApiHandler, HttpError, readBody, sendJson } from './http';
+
+// The crowd statistics over HTTP:
+//   GET  /api/crowd?ids=<id>,<id>   tallies for those images, if any
+//   POST /api/crowd/outcomes        add the outcomes of one guess
+// Outcomes that don't name catalog images get 422 with the problems found.
+
+export const createCrowdApi = (service: CrowdService): ApiHandler => async (request, url, response) => {
+  if (url.pathname === CROWD_API_PATH && request.method === 'GET') {
+    const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean);
+    if (ids.length === 0 || ids.length > MAX_STATS_QUERY) {
+      throw new HttpError(400, `ids must list 1-${MAX_STATS_QUERY} images`);
+    }
+    sendJson(response, 200, await service.getStats(ids));
+    return true;
+  }
+
+  if (url.pathname === `${CROWD_API_PATH}/outcomes` && request.method === 'POST') {
+    const problems = await service.record((await readBody(request)) as GuessOutcome[]);
+    sendJson(response, problems.length === 0 ? 201 : 422, { problems });
+    return true;
+  }
+
+  return false;
+};
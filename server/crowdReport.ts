@@ -0,0 +1,49 @@
+import { buildCatalog, directoryImageSource, parseImagePath } from '../plugins/imageCatalog';
+import { Category } from '../src/types';
+import { CategoryDeception, CrowdStats, MIN_CROWD_SAMPLE, rankByDeception, RankedImage, ReportImage } from '../src/crowd/stats';
+import { readJsonFile } from './jsonFileStore';
+
+// The maintainer report on the crowd statistics: per category, the AI images that fool
+// players most and least often. The first are the best fakes, the last are candidates to retire.
+
+export interface CrowdReportOptions {
+  imagesRoot: string;
+  crowdFile: string;
+  limit: number; // Images listed per ranking
+}
+
+const formatRow = ({ fooledShare, tally, file }: RankedImage): string =>
+  `    ${`${Math.round(fooledShare * 100)}%`.padStart(4)} fooled  ${`(${tally.shown} guesses)`.padEnd(15)} ${file}`;
+
+export const formatCrowdReport = (report: CategoryDeception[]): string => {
+  if (report.length === 0) return 'No AI images in the catalog.';
+  return report
+    .map(({ category, mostDeceptive, leastDeceptive, rated, unrated }) => [
+      `${category} (AI images): ${rated} ranked, ${unrated} with fewer than ${MIN_CROWD_SAMPLE} guesses`,
+      ...(rated === 0 ? [] : [
+        '  Most deceptive',
+        ...mostDeceptive.map(formatRow),
+        '  Least deceptive',
+        ...leastDeceptive.map(formatRow),
+      ]),
+    ].join('\n'))
+    .join('\n\n');
+};
+
+/**
+ * Builds the report from the image folder and the crowd statistics file the server keeps.
+ */
+export const createCrowdReport = async ({ imagesRoot, crowdFile, limit }: CrowdReportOptions): Promise<string> => {
+  const stats = await readJsonFile<CrowdStats>(crowdFile, {});
+  const { entries, sourceFiles } = await buildCatalog(directoryImageSource(imagesRoot), message => console.warn(message));
+
+  const aiImages: ReportImage[] = [];
+  for (const entry of entries) {
+    // Published ids are content hashes; the source path says which file, and whether it is AI
+    const file = sourceFiles.get(entry.id);
+    if (file && parseImagePath(file)?.type === 'ai') {
+      aiImages.push({ id: entry.id, category: entry.category as Category, file });
+    }
+  }
+  return formatCrowdReport(rankByDeception(aiImages, stats, limit));
+};
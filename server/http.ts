@@ -0,0 +1,71 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+
+// The parts every API on the server shares. The game is served from another origin,
+// so every response allows cross-origin requests.
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Handles the requests under one path. Returns false for anything it doesn't serve.
+ */
+export type ApiHandler = (request: IncomingMessage, url: URL, response: ServerResponse) => Promise<boolean>;
+
+export const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  response.end(JSON.stringify(body));
+};
+
+export const readBody = async (request: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+const handle = async (handlers: ApiHandler[], request: IncomingMessage, response: ServerResponse) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    response.end();
+    return;
+  }
+
+  for (const handler of handlers) {
+    if (await handler(request, url, response)) return;
+  }
+  throw new HttpError(404, 'Not found');
+};
+
+export const createApiServer = (handlers: ApiHandler[]): Server =>
+  createServer((request, response) => {
+    handle(handlers, request, response).catch(error => {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+        return;
+      }
+      console.error('[server] Request failed:', error);
+      sendJson(response, 500, { error: 'Internal server error' });
+    });
+  });
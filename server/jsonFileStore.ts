@@ -0,0 +1,58 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { LeaderboardEntry, LeaderboardStore } from '../src/leaderboard/service';
+import { CrowdStore } from '../src/crowd/service';
+import { addOutcomes, CrowdStats } from '../src/crowd/stats';
+
+// Stores that keep everything in one JSON file. Fine for a small event or a home server:
+// the file is read once and rewritten whole after each change, one write at a time.
+
+/**
+ * Reads a JSON file, or the fallback if it doesn't exist yet.
+ */
+export const readJsonFile = async <T>(path: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return fallback;
+  }
+};
+
+// Returns a function that saves the latest contents, queued behind any save in progress
+const createSaver = (path: string, contents: () => unknown) => {
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const save = async () => {
+    // Write then rename, so a crash mid-write never leaves half a file
+    const temporaryPath = `${path}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(contents()));
+    await rename(temporaryPath, path);
+  };
+  return () => {
+    pendingWrite = pendingWrite.then(save);
+    return pendingWrite;
+  };
+};
+
+export const createJsonFileStore = async (path: string): Promise<LeaderboardStore> => {
+  const entries = await readJsonFile<LeaderboardEntry[]>(path, []);
+  const save = createSaver(path, () => entries);
+  return {
+    add: async entry => {
+      entries.push(entry);
+      await save();
+    },
+    list: async () => [...entries],
+  };
+};
+
+export const createJsonFileCrowdStore = async (path: string): Promise<CrowdStore> => {
+  let stats = await readJsonFile<CrowdStats>(path, {});
+  const save = createSaver(path, () => stats);
+  return {
+    add: async outcomes => {
+      stats = addOutcomes(stats, outcomes);
+      await save();
+    },
+    load: async () => stats,
+  };
+};
@@ -0,0 +1,59 @@
+import { Category, FilterCategory, GameMode, RulesPresetId } from '../src/types';
+import { availableCategories } from '../src/data/images';
+import { DEFAULT_RULES_PRESET, RULES_PRESETS } from '../src/data/rules';
+import { LEADERBOARD_API_PATH } from '../src/leaderboard/client';
+import {
+  BoardQuery,
+  LEADERBOARD_PERIODS,
+  LeaderboardPeriod,
+  LeaderboardService,
+} from '../src/leaderboard/service';
+import { LeaderboardSubmission } from '../src/leaderboard/verify';
+import { ApiHandler, HttpError, readBody, sendJson } from './http';
+
+// The leaderboard over HTTP:
+//   GET  /api/leaderboard?mode=classic&rules=quick&category=all&period=weekly&limit=10   ranked entries
+//   POST /api/leaderboard/rounds                                                         submit a round
+// Classic boards default to the standard rules; daily and blitz boards have no rules parameter.
+// Rejected rounds get 422 with the problems found.
+
+const GAME_MODES: GameMode[] = ['classic', 'daily', 'blitz'];
+
+const parseBoardQuery = (params: URLSearchParams): BoardQuery => {
+  const mode = params.get('mode') ?? 'classic';
+  const category = params.get('category') ?? 'all';
+  const period = params.get('period') ?? 'all-time';
+  const limit = params.get('limit');
+  const rules = mode === 'classic' ? params.get('rules') ?? DEFAULT_RULES_PRESET : null;
+  if (!GAME_MODES.includes(mode as GameMode)) throw new HttpError(400, `Unknown mode ${mode}`);
+  if (rules !== null && !(rules in RULES_PRESETS)) throw new HttpError(400, `Unknown rules ${rules}`);
+  if (category !== 'all' && !availableCategories.includes(category as Category)) {
+    throw new HttpError(400, `Unknown category ${category}`);
+  }
+  if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) throw new HttpError(400, `Unknown period ${period}`);
+  if (limit !== null && !/^\d+$/.test(limit)) throw new HttpError(400, 'limit must be a whole number');
+  return {
+    mode: mode as GameMode,
+    category: category as FilterCategory,
+    rules: rules as RulesPresetId | null,
+    period: period as LeaderboardPeriod,
+    limit: limit === null ? undefined : Number(limit),
+  };
+};
+
+export const createLeaderboardApi = (service: LeaderboardService): ApiHandler => async (request, url, response) => {
+  if (url.pathname === LEADERBOARD_API_PATH && request.method === 'GET') {
+    sendJson(response, 200, await service.getBoard(parseBoardQuery(url.searchParams)));
+    return true;
+  }
+
+  if (url.pathname === `${LEADERBOARD_API_PATH}/rounds` && request.method === 'POST') {
+    const body = await readBody(request);
+    if (typeof body !== 'object' || body === null) throw new HttpError(400, 'Expected a round submission');
+    const result = await service.submit(body as LeaderboardSubmission);
+    sendJson(response, result.accepted ? 201 : 422, result);
+    return true;
+  }
+
+  return false;
+};
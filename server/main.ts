@@ -0,0 +1,26 @@
+import { createLeaderboardService } from '../src/leaderboard/service';
+import { createCrowdService } from '../src/crowd/service';
+import { createJsonFileCrowdStore, createJsonFileStore } from './jsonFileStore';
+import { createApiServer } from './http';
+import { createLeaderboardApi } from './leaderboardApi';
+import { createCrowdApi } from './crowdApi';
+
+export interface ServerOptions {
+  port: number;
+  leaderboardFile: string; // JSON file the leaderboard entries are kept in
+  crowdFile: string; // JSON file the crowd statistics are kept in
+}
+
+/**
+ * Starts the leaderboard and the crowd statistics. Submissions are checked against the image
+ * catalog this module was loaded with, so it has to be the catalog the game is served with.
+ */
+export const startServer = async ({ port, leaderboardFile, crowdFile }: ServerOptions) => {
+  const server = createApiServer([
+    createLeaderboardApi(createLeaderboardService(await createJsonFileStore(leaderboardFile))),
+    createCrowdApi(createCrowdService(await createJsonFileCrowdStore(crowdFile))),
+  ]);
+  await new Promise<void>(resolve => server.listen(port, resolve));
+  console.log(`[server] Listening on http://localhost:${port}, leaderboard in ${leaderboardFile}, crowd stats in ${crowdFile}`);
+  return server;
+};
@@ -1,19 +1,38 @@
-import React from 'react';
 // import Header from './components/Header';
 import GameBoard from './components/GameBoard';
 import RealOrAiArticle from './components/RealOrAiArticle';
+import StatsScreen from './components/StatsScreen';
+import ReviewScreen from './components/ReviewScreen';
+import LeaderboardScreen from './components/LeaderboardScreen';
 import Footer from './components/Footer';
 import { Analytics } from "@vercel/analytics/react"
+import { useRoute } from './hooks/useRoute';
 import './index.css';
 
 function App() {
-  const isRealOrAiPage = window.location.pathname.includes('/realorai');
+  const route = useRoute();
+
+  const renderPage = () => {
+    switch (route.name) {
+      case 'about':
+        return <RealOrAiArticle />;
+      case 'stats':
+        return <StatsScreen />;
+      case 'leaderboard':
+        return <LeaderboardScreen />;
+      case 'review':
+        return <ReviewScreen key={route.roundId} roundId={route.roundId} />;
+      default:
+        // Play, daily and challenge links are all the game; it follows the address itself
+        return <GameBoard />;
+    }
+  };
 
   return (
     <div className="h-dvh flex flex-col bg-white overflow-hidden">
       {/* <Header /> */}
       <main id="main-scroll-container" className="flex-grow container mx-auto px-4 pt-2 md:pt-4 min-h-0 overflow-y-auto">
-        {isRealOrAiPage ? <RealOrAiArticle /> : <GameBoard />}
+        {renderPage()}
       </main>
       <Footer />
       <Analytics />
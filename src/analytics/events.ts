@@ -0,0 +1,40 @@
+import { FilterCategory, GameLayout, GameMode } from '../types';
+
+// Every custom analytics event and its properties. Properties stay flat and primitive,
+// which is all Vercel Analytics accepts, and never identify the player.
+
+export interface AnalyticsEvents {
+  round_started: {
+    mode: GameMode;
+    category: FilterCategory;
+    layout: GameLayout;
+    replay: boolean; // Dealt from a seed or challenge code rather than a fresh seed
+  };
+  guess_made: {
+    mode: GameMode;
+    category: FilterCategory;
+    layout: GameLayout;
+    correct: boolean;
+    responseTimeMs: number;
+    candidates: number; // Images shown with the guess
+  };
+  round_completed: {
+    mode: GameMode;
+    category: FilterCategory;
+    score: number; // Points in blitz
+    attempts: number;
+    bestStreak: number;
+  };
+  category_changed: {
+    from: FilterCategory;
+    to: FilterCategory;
+  };
+  share_clicked: {
+    method: 'copy_text' | 'image' | 'challenge';
+  };
+  lightbox_opened: {
+    revealed: boolean; // Opened after the answer was shown
+  };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents;
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnalyticsAdapter, noopAdapter, setAnalyticsAdapter, track } from './track';
+import { createLogger, getLogLevel, setLogLevel } from '../utils/logger';
+
+describe('track', () => {
+  const initialLevel = getLogLevel();
+
+  afterEach(() => {
+    setAnalyticsAdapter(noopAdapter);
+    setLogLevel(initialLevel);
+    vi.restoreAllMocks();
+  });
+
+  it('sends events to the current adapter', () => {
+    const sent: unknown[] = [];
+    setAnalyticsAdapter({ send: (name, properties) => sent.push({ name, properties }) });
+
+    track('share_clicked', { method: 'challenge' });
+    track('category_changed', { from: 'all', to: 'people' });
+
+    expect(sent).toEqual([
+      { name: 'share_clicked', properties: { method: 'challenge' } },
+      { name: 'category_changed', properties: { from: 'all', to: 'people' } },
+    ]);
+  });
+
+  it('never lets a failing adapter break the game', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing: AnalyticsAdapter = { send: () => { throw new Error('blocked'); } };
+    setAnalyticsAdapter(failing);
+    setLogLevel('warn');
+
+    expect(() => track('lightbox_opened', { revealed: false })).not.toThrow();
+    expect(warn).toHaveBeenCalledWith('[analytics]', 'Could not track lightbox_opened:', expect.any(Error));
+  });
+});
+
+describe('logger', () => {
+  const initialLevel = getLogLevel();
+
+  afterEach(() => {
+    setLogLevel(initialLevel);
+    vi.restoreAllMocks();
+  });
+
+  it('drops messages below the level', () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = createLogger('test');
+
+    setLogLevel('error');
+    log.debug('hidden');
+    log.error('shown');
+    setLogLevel('silent');
+    log.error('hidden');
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith('[test]', 'shown');
+  });
+});
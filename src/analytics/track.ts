@@ -0,0 +1,56 @@
+import { track as trackVercel } from '@vercel/analytics';
+import { createLogger } from '../utils/logger';
+import { AnalyticsEventName, AnalyticsEvents } from './events';
+
+// One track() for the whole app; where events go is up to the adapter. VITE_ANALYTICS picks
+// it at build time: vercel, console or off. By default production builds send events to
+// Vercel and dev builds log them.
+
+export interface AnalyticsAdapter {
+  send<Name extends AnalyticsEventName>(name: Name, properties: AnalyticsEvents[Name]): void;
+}
+
+export type AnalyticsTarget = 'vercel' | 'console' | 'off';
+
+const log = createLogger('analytics');
+
+export const vercelAdapter: AnalyticsAdapter = {
+  send: (name, properties) => trackVercel(name, { ...properties }),
+};
+
+export const consoleAdapter: AnalyticsAdapter = {
+  send: (name, properties) => log.debug(name, properties),
+};
+
+export const noopAdapter: AnalyticsAdapter = {
+  send: () => {},
+};
+
+const adapters: Record<AnalyticsTarget, AnalyticsAdapter> = {
+  vercel: vercelAdapter,
+  console: consoleAdapter,
+  off: noopAdapter,
+};
+
+const configuredTarget = import.meta.env.VITE_ANALYTICS as AnalyticsTarget | undefined;
+let adapter: AnalyticsAdapter = configuredTarget && configuredTarget in adapters
+  ? adapters[configuredTarget]
+  : import.meta.env.PROD ? vercelAdapter : consoleAdapter;
+
+/**
+ * Replaces where events go, e.g. with a recording adapter in tests.
+ */
+export const setAnalyticsAdapter = (next: AnalyticsAdapter): void => {
+  adapter = next;
+};
+
+/**
+ * Sends an analytics event. Never throws: analytics must not break the game.
+ */
+export const track = <Name extends AnalyticsEventName>(name: Name, properties: AnalyticsEvents[Name]): void => {
+  try {
+    adapter.send(name, properties);
+  } catch (error) {
+    log.warn(`Could not track ${name}:`, error);
+  }
+};
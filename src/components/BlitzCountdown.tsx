@@ -0,0 +1,40 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { BLITZ_DURATION_MS } from '../data/blitz';
+
+interface BlitzCountdownProps {
+  timeLeftMs: number;
+  points: number;
+}
+
+// Last stretch of the clock gets highlighted
+const WARNING_MS = 10_000;
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const BlitzCountdown: React.FC<BlitzCountdownProps> = ({ timeLeftMs, points }) => {
+  const isWarning = timeLeftMs <= WARNING_MS;
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-3" role="timer" aria-live="off">
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className={`inline-flex items-center gap-1 font-medium tabular-nums ${isWarning ? 'text-red-600' : 'text-gray-900'}`}>
+          <Timer className="w-4 h-4" />
+          {formatTime(timeLeftMs)}
+        </span>
+        <span className="font-medium text-gray-900 tabular-nums">{points} pts</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className={`h-full transition-[width] duration-100 ease-linear ${isWarning ? 'bg-red-500' : 'bg-gray-900'}`}
+          style={{ width: `${(timeLeftMs / BLITZ_DURATION_MS) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BlitzCountdown;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { CalibrationSummary, CalibrationVerdict } from '../data/calibration';
+
+interface CalibrationChartProps {
+  calibration: CalibrationSummary;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const verdictText: Record<CalibrationVerdict, string> = {
+  overconfident: 'You were more sure than right.',
+  underconfident: 'You were right more often than you thought.',
+  calibrated: 'Your confidence matched your accuracy.',
+};
+
+/**
+ * Stated confidence against actual accuracy, one bar per confidence level.
+ * A perfectly calibrated player's bars reach the dashed markers.
+ */
+const CalibrationChart: React.FC<CalibrationChartProps> = ({ calibration }) => {
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const slotWidth = innerWidth / calibration.bins.length;
+  const barWidth = slotWidth * 0.5;
+  const toY = (fraction: number) => CHART_PADDING + (1 - fraction) * innerHeight;
+
+  return (
+    <div className="w-full">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Confidence against accuracy">
+        {[0, 50, 100].map(level => (
+          <g key={level}>
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={toY(level / 100)} y2={toY(level / 100)} className="stroke-gray-100" />
+            <text x={CHART_PADDING - 4} y={toY(level / 100) + 3} textAnchor="end" className="fill-gray-400 text-[9px]">{level}%</text>
+          </g>
+        ))}
+        {calibration.bins.map((bin, index) => {
+          const x = CHART_PADDING + index * slotWidth + (slotWidth - barWidth) / 2;
+          return (
+            <g key={bin.confidence}>
+              {bin.count > 0 && (
+                <rect x={x} y={toY(bin.accuracy)} width={barWidth} height={innerHeight * bin.accuracy} className="fill-gray-900">
+                  <title>{`Said ${Math.round(bin.confidence * 100)}%: right ${Math.round(bin.accuracy * 100)}% of ${bin.count}`}</title>
+                </rect>
+              )}
+              <line x1={x - 4} x2={x + barWidth + 4} y1={toY(bin.confidence)} y2={toY(bin.confidence)} className="stroke-red-500" strokeWidth={2} strokeDasharray="3 2" />
+              <text x={x + barWidth / 2} y={CHART_HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[9px]">
+                {Math.round(bin.confidence * 100)}% ({bin.count})
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-sm text-gray-700 text-center mt-1">{verdictText[calibration.verdict]}</p>
+      <p className="text-xs text-gray-500 text-center mt-1">
+        Brier score {calibration.brierScore.toFixed(3)} (0 is perfect, 0.25 is guessing at 50%) · log score {calibration.logScore.toFixed(2)}
+      </p>
+    </div>
+  );
+};
+
+export default CalibrationChart;
@@ -1,11 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Grid, Users, Leaf, Building, Armchair } from 'lucide-react';
+import { Grid, Users, Leaf, Building, Armchair, CalendarDays, Timer } from 'lucide-react';
 import { FilterCategory } from '../types';
 
 interface CategoryFilterProps {
   selectedCategory: FilterCategory;
   onCategoryChange: (category: FilterCategory) => void;
+  isDaily?: boolean;
+  onDailySelect?: () => void;
+  isBlitz?: boolean;
+  onBlitzSelect?: () => void;
   isMobile?: boolean;
 }
 
@@ -20,6 +24,10 @@ const categoryLabels: Record<FilterCategory, string> = {
 const CategoryFilter: React.FC<CategoryFilterProps> = ({
   selectedCategory,
   onCategoryChange,
+  isDaily = false,
+  onDailySelect,
+  isBlitz = false,
+  onBlitzSelect,
   isMobile = false,
 }) => {
   const categories: FilterCategory[] = ['all', 'people', 'nature', 'city', 'interior'];
@@ -51,14 +59,26 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
             onClick={() => setIsDropdownOpen(!isDropdownOpen)}
             className="w-full px-3 py-2 text-sm text-gray-700 bg-transparent focus:outline-none flex items-center justify-between"
           >
-            <div className="flex items-center gap-2">
-              {selectedCategory === 'all' && (<Grid className="w-4 h-4 text-gray-500" />)}
-              {selectedCategory === 'people' && (<Users className="w-4 h-4 text-gray-500" />)}
-              {selectedCategory === 'nature' && (<Leaf className="w-4 h-4 text-gray-500" />)}
-              {selectedCategory === 'city' && (<Building className="w-4 h-4 text-gray-500" />)}
-              {selectedCategory === 'interior' && (<Armchair className="w-4 h-4 text-gray-500" />)}
-              <span className="font-medium">{categoryLabels[selectedCategory]}</span>
-            </div>
+            {isDaily ? (
+              <div className="flex items-center gap-2">
+                <CalendarDays className="w-4 h-4 text-gray-500" />
+                <span className="font-medium">Daily</span>
+              </div>
+            ) : isBlitz ? (
+              <div className="flex items-center gap-2">
+                <Timer className="w-4 h-4 text-gray-500" />
+                <span className="font-medium">Blitz</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                {selectedCategory === 'all' && (<Grid className="w-4 h-4 text-gray-500" />)}
+                {selectedCategory === 'people' && (<Users className="w-4 h-4 text-gray-500" />)}
+                {selectedCategory === 'nature' && (<Leaf className="w-4 h-4 text-gray-500" />)}
+                {selectedCategory === 'city' && (<Building className="w-4 h-4 text-gray-500" />)}
+                {selectedCategory === 'interior' && (<Armchair className="w-4 h-4 text-gray-500" />)}
+                <span className="font-medium">{categoryLabels[selectedCategory]}</span>
+              </div>
+            )}
             <svg
               className={`w-4 h-4 transition-transform duration-200 ${isDropdownOpen ? 'rotate-180' : ''}`}
               fill="none"
@@ -86,7 +106,7 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
                       setIsDropdownOpen(false);
                     }}
                     className={`w-full px-3 py-2 text-sm text-left hover:bg-gray-50 first:rounded-t-md last:rounded-b-md ${
-                      selectedCategory === category ? 'font-bold text-gray-900' : 'text-gray-700'
+                      !isDaily && !isBlitz && selectedCategory === category ? 'font-bold text-gray-900' : 'text-gray-700'
                     }`}
                   >
                     <span className="inline-flex items-center gap-2">
@@ -99,6 +119,38 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
                     </span>
                   </button>
                 ))}
+                {onDailySelect && (
+                  <button
+                    onClick={() => {
+                      onDailySelect();
+                      setIsDropdownOpen(false);
+                    }}
+                    className={`w-full px-3 py-2 text-sm text-left hover:bg-gray-50 border-t border-gray-100 last:rounded-b-md ${
+                      isDaily ? 'font-bold text-gray-900' : 'text-gray-700'
+                    }`}
+                  >
+                    <span className="inline-flex items-center gap-2">
+                      <CalendarDays className="w-4 h-4 text-gray-500" />
+                      <span>Daily</span>
+                    </span>
+                  </button>
+                )}
+                {onBlitzSelect && (
+                  <button
+                    onClick={() => {
+                      onBlitzSelect();
+                      setIsDropdownOpen(false);
+                    }}
+                    className={`w-full px-3 py-2 text-sm text-left hover:bg-gray-50 last:rounded-b-md ${
+                      isBlitz ? 'font-bold text-gray-900' : 'text-gray-700'
+                    }`}
+                  >
+                    <span className="inline-flex items-center gap-2">
+                      <Timer className="w-4 h-4 text-gray-500" />
+                      <span>Blitz</span>
+                    </span>
+                  </button>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
@@ -111,7 +163,7 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
     <div className="w-full max-w-lg mx-auto mb-6">
       <div className="flex justify-center gap-6">
         {categories.map((category) => {
-          const isSelected = selectedCategory === category;
+          const isSelected = !isDaily && !isBlitz && selectedCategory === category;
           return (
             <button
               key={category}
@@ -126,6 +178,32 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
             </button>
           );
         })}
+        {onDailySelect && (
+          <button
+            onClick={onDailySelect}
+            className={`text-sm transition-all duration-200 hover:text-gray-900 inline-flex items-center gap-1 pl-6 border-l border-gray-200 ${
+              isDaily
+                ? 'font-bold text-gray-900 underline decoration-2 underline-offset-2'
+                : 'text-gray-500'
+            }`}
+          >
+            <CalendarDays className="w-4 h-4" />
+            Daily
+          </button>
+        )}
+        {onBlitzSelect && (
+          <button
+            onClick={onBlitzSelect}
+            className={`text-sm transition-all duration-200 hover:text-gray-900 inline-flex items-center gap-1 ${
+              isBlitz
+                ? 'font-bold text-gray-900 underline decoration-2 underline-offset-2'
+                : 'text-gray-500'
+            }`}
+          >
+            <Timer className="w-4 h-4" />
+            Blitz
+          </button>
+        )}
       </div>
     </div>
   );
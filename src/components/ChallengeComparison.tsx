@@ -0,0 +1,44 @@
+import React from 'react';
+import { ChallengeVerdict, countCorrect, FriendChallenge, judgeChallenge } from '../engine/challengeCode';
+
+interface ChallengeComparisonProps {
+  challenge: FriendChallenge;
+  results: boolean[]; // The player's outcomes on the same images
+}
+
+const verdictText: Record<ChallengeVerdict, string> = {
+  won: 'You beat your friend!',
+  lost: 'Your friend wins this one.',
+  tied: "It's a tie.",
+};
+
+const ResultRow: React.FC<{ label: string; results: boolean[]; total: number }> = ({ label, results, total }) => (
+  <div className="flex items-center gap-3">
+    <span className="w-20 text-sm text-gray-600 text-left">{label}</span>
+    <div className="flex flex-wrap gap-1 flex-1" aria-label={`${label}: ${countCorrect(results)} of ${total}`}>
+      {Array.from({ length: total }, (_, i) => (
+        <span
+          key={i}
+          className={`w-3 h-3 rounded-sm ${i >= results.length ? 'bg-gray-200' : results[i] ? 'bg-gray-900' : 'bg-red-500'}`}
+        />
+      ))}
+    </div>
+    <span className="w-12 text-right text-sm font-medium text-gray-900">{countCorrect(results)}/{total}</span>
+  </div>
+);
+
+/**
+ * Head-to-head result of a friend challenge, guess by guess on the same images.
+ */
+const ChallengeComparison: React.FC<ChallengeComparisonProps> = ({ challenge, results }) => {
+  const total = challenge.results.length;
+  return (
+    <div className="w-full space-y-2">
+      <p className="text-lg font-medium text-gray-900 text-center mb-3">{verdictText[judgeChallenge(challenge, results)]}</p>
+      <ResultRow label="Your friend" results={challenge.results} total={total} />
+      <ResultRow label="You" results={results} total={total} />
+    </div>
+  );
+};
+
+export default ChallengeComparison;
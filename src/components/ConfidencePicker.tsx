@@ -0,0 +1,35 @@
+import React from 'react';
+import { CONFIDENCE_LEVELS } from '../data/calibration';
+
+interface ConfidencePickerProps {
+  prompt: string;
+  onPick: (confidence: number) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second step of a confidence-rated guess. Keys 1-4 pick a level and Escape cancels;
+ * GameBoard handles those so they work alongside its other shortcuts.
+ */
+const ConfidencePicker: React.FC<ConfidencePickerProps> = ({ prompt, onPick, onCancel }) => (
+  <div className="w-full max-w-md mx-auto px-4 text-center">
+    <p className="text-sm text-gray-700 mb-2">{prompt}</p>
+    <div className="flex justify-center gap-2">
+      {CONFIDENCE_LEVELS.map((confidence, index) => (
+        <button
+          key={confidence}
+          onClick={() => onPick(confidence)}
+          className="flex-1 rounded-full px-3 py-2 text-base border-2 border-gray-200 text-gray-800 bg-white md:hover:bg-gray-50"
+          title={`Press ${index + 1}`}
+        >
+          {Math.round(confidence * 100)}%
+        </button>
+      ))}
+    </div>
+    <button onClick={onCancel} className="mt-2 text-sm text-gray-500 hover:text-gray-900">
+      Change my answer
+    </button>
+  </div>
+);
+
+export default ConfidencePicker;
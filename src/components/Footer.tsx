@@ -1,10 +1,17 @@
 import React from 'react';
+import Link from './Link';
 
 const Footer: React.FC = () => {
   return (
     <footer className="py-3 pb-5">
       <div className="text-center text-xs text-gray-500">
         Made with ❤️ by <a href="https://alkemist.no" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-700">Alkemist</a>
+        {' · '}
+        <Link href="/stats" className="underline hover:text-gray-700">Your stats</Link>
+        {' · '}
+        <Link href="/leaderboard" className="underline hover:text-gray-700">Leaderboard</Link>
+        {' · '}
+        <Link href="/about" className="underline hover:text-gray-700">About</Link>
       </div>
     </footer>
   );
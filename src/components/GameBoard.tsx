@@ -1,20 +1,49 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useImagePair } from '../hooks/useImagePair';
+import { useGameEngine } from '../hooks/useGameEngine';
 import { useGameState } from '../hooks/useGameState';
-import { getFilteredImages } from '../data/images'; // Import the new function
+import { isAIImage } from '../data/images';
+import { getImagePreloader } from '../data/preloadQueue';
+import { getCardImageSrc } from '../data/cardImage';
+import { buildDailyChallenge, DailyChallenge, getDailyKey, getDailyResult, saveDailyResult } from '../data/daily';
+import { BLITZ_RULES, DAILY_RULES, RULES_PRESETS } from '../data/rules';
+import { summarizeBlitz } from '../data/blitz';
+import { CONFIDENCE_LEVELS } from '../data/calibration';
+import { answerRound, EngineConfig, peekUpcomingRounds } from '../engine/gameEngine';
+import { encodeRoundSeed, readSeedParam } from '../engine/roundSeed';
+import { encodeChallengeCode, parseChallengeCode, ParsedChallenge } from '../engine/challengeCode';
+import { navigate, parseRoute, playPath, Route } from '../routing/routes';
+import { getRoundDurationMs, LeaderboardSubmission } from '../leaderboard/verify';
+import { createSeed } from '../utils/random';
+import { createLogger } from '../utils/logger';
+import { track } from '../analytics/track';
+import { prefetchForOffline } from '../serviceWorker/register';
 import ImageCard from './ImageCard';
 import Feedback from './Feedback';
 import ScoreDisplay from './ScoreDisplay';
 import CategoryFilter from './CategoryFilter';
 import SummaryScreen from './SummaryScreen';
+import SetupScreen from './SetupScreen';
+import BlitzCountdown from './BlitzCountdown';
+import ConfidencePicker from './ConfidencePicker';
 import Confetti from 'react-confetti';
-import { Image } from '../types'; // Use Image type
+import { ChallengeFormat, ChallengeTarget, FilterCategory, GameLayout, GameMode, RulesPresetId } from '../types';
 import { RefreshCw, Share2 } from 'lucide-react';
 
+const log = createLogger('GameBoard');
+
 const MOBILE_BREAKPOINT = 768; // Define a breakpoint
-// const FETCH_COUNT = 4; // How many pairs to fetch when needed - Might not be needed for mobile now
-const UNIQUE_DISPLAY_COUNT_TARGET = 50; // How many unique images to guarantee
+const BLITZ_TICK_MS = 100;
+// Deals whose images are cached ahead, a standard round's worth, so play goes on offline
+const OFFLINE_WINDOW_ROUNDS = 10;
+// Deals whose images are loaded into memory ahead, so the next ones appear sharp
+const PRELOAD_ROUNDS = 2;
+// Pairs layout by column count; pairs stack on narrow screens, grids of five or six wrap at three
+const GRID_CLASSES: Record<number, string> = {
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+};
 
 // Simple hook to get window size
 function useWindowSize() {
@@ -31,65 +60,99 @@ function useWindowSize() {
   return size;
 }
 
-// Helper function to shuffle an array (Fisher-Yates)
-const shuffleArray = <T,>(array: T[]): T[] => {
-  const shuffledArray = [...array];
-  for (let i = shuffledArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffledArray[i], shuffledArray[j]] = [shuffledArray[j], shuffledArray[i]];
-  }
-  return shuffledArray;
-};
-
 const GameBoard: React.FC = () => {
   const {
     state,
     selectImage,
     showFeedback,
-    nextPair, // Still needed for resetting feedback state
+    nextPair, // Clears the answer before the next images
     resetGame,
     setCategory,
-    showSummary,
+    setMode,
+    setRules,
+    setConfidenceEnabled,
+    setChallengeFormat,
+    setLayout,
+    restoreDailyResult,
+    startBlitz,
+    tickBlitz,
+    expireBlitz,
+    finishRound,
     hideSummary,
   } = useGameState();
 
-  // Desktop view still uses useImagePair
-  const {
-    currentPair,
-    loading: pairLoading,
-    error: pairError,
-    generateRandomPair,
-    getShuffledImages,
-  } = useImagePair(state.selectedCategory);
-
-  const nextActionTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // One engine deals the images for both layouts
+  const { engine, round, start: startEngine, advance: advanceEngine } = useGameEngine();
+
+  const nextActionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showConfetti, setShowConfetti] = useState(false);
-  const confettiTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const confettiTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The next images wait while the player reads a "Why?" explanation
+  const [isExplaining, setIsExplaining] = useState(false);
   const { width, height } = useWindowSize();
+  // The viewport only styles the header; the layout is the player's choice and never flips mid-round
   const isMobile = width < MOBILE_BREAKPOINT;
+  const layout: GameLayout = round?.layout ?? state.layout;
+  const isSingle = layout === 'single';
+  const isDaily = state.mode === 'daily';
+  const isBlitz = state.mode === 'blitz';
+  // A friend's challenge: the same images as their round, then a head-to-head summary
+  const [friendChallenge, setFriendChallenge] = useState<ParsedChallenge | null>(null);
+  // Round length, timings and the like come from the chosen preset. A friend challenge is as long as the friend's round.
+  const rules = useMemo(() => {
+    if (isDaily) return DAILY_RULES;
+    if (isBlitz) return BLITZ_RULES;
+    return friendChallenge?.challenge
+      ? { ...state.rules, roundLength: friendChallenge.challenge.results.length }
+      : state.rules;
+  }, [isDaily, isBlitz, friendChallenge, state.rules]);
+  const [showSetup, setShowSetup] = useState(false);
+  // With confidence rating on, a guess takes two steps: the answer, then how sure the player is.
+  // Blitz is about speed, so it always takes single-step guesses.
+  const asksConfidence = state.confidenceEnabled && !isBlitz;
+  const [pendingChoice, setPendingChoice] = useState<{ imageId: string; guess: 'real' | 'ai' } | null>(null);
+  // Dealt from a seed or challenge code rather than a fresh seed
+  const [isReplay, setIsReplay] = useState(false);
+
+  // --- Daily State ---
+  // The daily sequence is fixed up front and dealt by the engine in order
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallenge | null>(null);
+
+  // Recorded with the round so it can be replayed from a ?seed= link. A restored daily result
+  // dealt nothing, so it has no code.
+  const seedCode = useMemo(
+    () => (engine && (!isDaily || dailyChallenge) ? encodeRoundSeed(engine) : undefined),
+    [engine, isDaily, dailyChallenge],
+  );
+  // Blitz scores depend on speed as much as on the images, so blitz rounds can't be sent as challenges
+  const challengeCode = seedCode && !isBlitz
+    ? encodeChallengeCode({ seedCode, results: state.results }) ?? undefined
+    : undefined;
+  // The leaderboard replays the round from its seed, so it needs the code and the full guess log.
+  // A friend challenge is as long as the friend's round rather than the player's rules, so it has no board.
+  const leaderboardSubmission: Omit<LeaderboardSubmission, 'nickname'> | undefined = seedCode && state.guesses.length > 0 && !friendChallenge
+    ? {
+        mode: state.mode,
+        category: isDaily ? 'all' : state.selectedCategory,
+        score: isBlitz ? state.blitz?.points ?? 0 : state.score,
+        rules: isDaily || isBlitz ? null : state.rulesPreset,
+        durationMs: getRoundDurationMs(state.guesses),
+        seed: seedCode,
+        guesses: state.guesses,
+      }
+    : undefined;
 
-  // Debug: Monitor selectedCategory changes
   useEffect(() => {
-    console.log('selectedCategory state changed to:', state.selectedCategory);
+    log.debug('selectedCategory state changed to:', state.selectedCategory);
   }, [state.selectedCategory]);
 
-  // --- Mobile State --- 
-  const [masterMobileList, setMasterMobileList] = useState<Image[]>([]);
-  const [currentMobileImage, setCurrentMobileImage] = useState<Image | null>(null);
-  const [masterMobileIndex, setMasterMobileIndex] = useState(0);
-  const [uniqueImagesShownCount, setUniqueImagesShownCount] = useState(0);
-  const [mobileLoading, setMobileLoading] = useState(true);
-  const [mobileError, setMobileError] = useState<string | null>(null);
-  // State to block interactions during mobile advancement
-  const [isAdvancing, setIsAdvancing] = useState(false);
   const [buttonResetKey, setButtonResetKey] = useState(0); // Added for button reset
 
-  // State for swipe/exit animation (used by both)
+  // State for swipe/exit animation (single layout)
   const [swipeDirectionForExit, setSwipeDirectionForExit] = useState<'left' | 'right' | null>(null);
-  // Ref for drag position (used by mobile)
-  // Swipe interactions removed for mobile; keep minimal animation only
+  // Swipe interactions removed; keep minimal animation only
 
-  // Refs for mobile buttons
+  // Refs for the single layout's buttons
   const realButtonRef = useRef<HTMLButtonElement>(null);
   const aiButtonRef = useRef<HTMLButtonElement>(null);
 
@@ -98,217 +161,308 @@ const GameBoard: React.FC = () => {
 
   // Mobile share handlers
   const handleMobileShareFlip = useCallback(() => {
-    console.log('🔄 handleMobileShareFlip called');
     setMobileShareFlipped(prev => {
-      console.log('🔄 Setting mobileShareFlipped from', prev, 'to', !prev);
+      log.debug('Setting mobileShareFlipped from', prev, 'to', !prev);
       return !prev;
     });
   }, []); // No dependencies to avoid stale closure
 
-
-  // --- Initialization and Reset Logic ---
-  const initializeMobileGame = useCallback((filterCategory = state.selectedCategory) => {
-    console.log('🚀 initializeMobileGame called with filterCategory:', filterCategory);
-    console.log('🚀 state.selectedCategory at time of call:', state.selectedCategory);
-    
-    // Ensure any pending timers/advancement state are cleared when (re)initializing
+  const clearAdvanceTimer = () => {
     if (nextActionTimerRef.current) {
       clearTimeout(nextActionTimerRef.current);
       nextActionTimerRef.current = null;
     }
-    setIsAdvancing(false);
-    setMobileLoading(true);
-    setMobileError(null);
-    setMobileShareFlipped(false); // Reset mobile share flip state
-    try {
-      const filteredImages = getFilteredImages(filterCategory);
-      console.log('🖼️ getFilteredImages returned:', filteredImages.length, 'images for category:', filterCategory);
-      
-      if (filteredImages.length === 0) {
-        console.log('❌ No images found for category:', filterCategory);
-        setMobileError('No images available for the selected category.');
-        setMasterMobileList([]);
-        setCurrentMobileImage(null);
-      } else {
-        console.log('✅ Setting up mobile game with', filteredImages.length, 'images');
-        setMasterMobileList(filteredImages);
-        setCurrentMobileImage(filteredImages[0]); // Set the first image
-        setMasterMobileIndex(0);
-        setUniqueImagesShownCount(0);
-        console.log('✅ First image set:', filteredImages[0]?.id);
-      }
-    } catch (error) {
-        console.log('❌ Error in initializeMobileGame:', error);
-        setMobileError('Failed to load images.');
-    }
-    setMobileLoading(false);
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
-  // Remove state.selectedCategory dependency to avoid stale closure - we pass category as parameter
+  };
 
-  // Initialize on mount if mobile
-  useEffect(() => {
-    if (isMobile) {
-      initializeMobileGame(state.selectedCategory); // Pass current category explicitly
-    } else {
-       // If starting on desktop, generate initial pair ONLY if not already loaded
-       if (!currentPair) {
-         generateRandomPair(state.selectedCategory);
-       }
-    }
-    // Cleanup ref on unmount
-    return () => {
-       if (nextActionTimerRef.current) clearTimeout(nextActionTimerRef.current);
-       if (confettiTimerRef.current) clearTimeout(confettiTimerRef.current);
-    }
-    // dependencies: Run when isMobile changes, or on initial mount for the correct mode logic.
-    // initializeMobileGame and generateRandomPair are stable callbacks.
-  }, [isMobile, initializeMobileGame, generateRandomPair, currentPair, state.selectedCategory]);
+  // --- Initialization and Reset Logic ---
+  // Deals the first images of a round. Overrides carry settings changed in the same event,
+  // which the state doesn't show until the next render.
+  const startRounds = (mode: GameMode, filter: FilterCategory, overrides: Partial<EngineConfig> = {}) => {
+    clearAdvanceTimer();
+    setMobileShareFlipped(false);
+    const config: EngineConfig = {
+      layout: state.layout,
+      filter,
+      format: state.challengeFormat,
+      uniqueDisplayTarget: state.rules.uniqueDisplayTarget,
+      seed: createSeed(),
+      adaptive: true,
+      ...overrides,
+    };
+    startEngine(config);
+    const replay = mode === 'classic' && overrides.seed !== undefined; // The daily's seed is the day's, not a link's
+    setIsReplay(replay);
+    track('round_started', { mode, category: filter, layout: config.layout, replay });
+  };
 
   const handleResetGame = () => {
+    if (isBlitz) {
+      startBlitzRound();
+      return;
+    }
+    // The daily can't be restarted, only resumed; a friend challenge replays the same images
+    if (isDaily) {
+      startDaily();
+      return;
+    }
+    if (friendChallenge) {
+      startChallenge(friendChallenge);
+      return;
+    }
     resetGame(); // Reset score, streak etc.
     // Clear confetti if showing
     if (confettiTimerRef.current) clearTimeout(confettiTimerRef.current);
     setShowConfetti(false);
-    // Ensure mobile advancing state is cleared
-    setIsAdvancing(false);
-
-    if (isMobile) {
-      initializeMobileGame(); // Re-initialize mobile state
-    } else {
-      generateRandomPair(state.selectedCategory);
-    }
+    navigate(playPath(state.selectedCategory)); // A fresh round, so no longer the challenge link's
+    startRounds('classic', state.selectedCategory);
   };
 
-  const handleCategoryChange = (category: 'all' | 'people' | 'nature' | 'city' | 'interior') => {
-    console.log('🔄 handleCategoryChange called with:', category);
-    console.log('📊 Current state.selectedCategory before change:', state.selectedCategory);
+  const handleCategoryChange = (category: FilterCategory, overrides: Partial<EngineConfig> = {}) => {
+    log.debug('handleCategoryChange called with:', category);
+    setMode('classic');
+    setDailyChallenge(null);
+    setFriendChallenge(null);
     setCategory(category);
-    console.log('✅ setCategory called, new category should be:', category);
     resetGame(); // Reset score and game state when changing category
     hideSummary(); // Hide summary when changing category
-    // Clear any pending auto-advance and unblock interactions
-    if (nextActionTimerRef.current) {
-      clearTimeout(nextActionTimerRef.current);
-      nextActionTimerRef.current = null;
+    startRounds('classic', category, overrides);
+  };
+
+  // Category picks are history entries, so the back button returns to the previous category
+  const playCategory = (category: FilterCategory, overrides: Partial<EngineConfig> = {}) => {
+    if (category !== state.selectedCategory) track('category_changed', { from: state.selectedCategory, to: category });
+    navigate(playPath(category));
+    handleCategoryChange(category, overrides);
+  };
+
+  const startDaily = () => {
+    hideSummary();
+    resetGame();
+    setMode('daily');
+    setFriendChallenge(null);
+    clearAdvanceTimer();
+    setMobileShareFlipped(false);
+
+    // One attempt per day: if today's daily is done, show its result instead
+    const dateKey = getDailyKey();
+    const previousResult = getDailyResult(dateKey);
+    if (previousResult && !previousResult.inProgress) {
+      setDailyChallenge(null);
+      restoreDailyResult(previousResult);
+      return;
+    }
+
+    // Each layout has its own daily sequence. An attempt already under way goes on from its
+    // next guess, in the layout it was started in.
+    const challenge = buildDailyChallenge(previousResult?.layout ?? state.layout, dateKey);
+    setDailyChallenge(challenge);
+    if (previousResult) restoreDailyResult(previousResult);
+    startRounds('daily', 'all', {
+      layout: challenge.layout,
+      sequence: challenge.rounds.slice(previousResult?.totalAttempts ?? 0),
+      seed: challenge.seed,
+      adaptive: false,
+    });
+  };
+
+  // Plays the images of a challenge or seed code; only a challenge code has a score to compare with
+  const startChallenge = (parsed: ParsedChallenge) => {
+    handleCategoryChange(parsed.replay.filter, parsed.replay);
+    if (parsed.challenge) setFriendChallenge(parsed);
+  };
+
+  const openDaily = () => {
+    navigate('/daily');
+    startDaily();
+  };
+
+  // Starts what a path asks for: on load, and when the player goes back or forward
+  const openRoute = (route: Route) => {
+    switch (route.name) {
+      case 'daily':
+        startDaily();
+        break;
+      case 'challenge': {
+        const parsed = parseChallengeCode(route.code);
+        if (parsed) {
+          startChallenge(parsed);
+        } else {
+          log.warn(`Ignoring invalid challenge code: ${route.code}`);
+          navigate(playPath(state.selectedCategory), { replace: true });
+          handleCategoryChange(state.selectedCategory);
+        }
+        break;
+      }
+      case 'play':
+        handleCategoryChange(route.category ?? state.selectedCategory);
+        break;
     }
-    setIsAdvancing(false);
-    
-    if (isMobile) {
-      console.log('📱 Initializing mobile game with category:', category);
-      console.log('📱 Current mobile state before init:', {
-        masterMobileList: masterMobileList.length,
-        currentMobileImage: currentMobileImage?.id,
-        masterMobileIndex,
-        uniqueImagesShownCount
-      });
-      initializeMobileGame(category);
+  };
+  // The effects below read these, so they always see the current state
+  const openRouteRef = useRef(openRoute);
+  openRouteRef.current = openRoute;
+  const handleCategoryChangeRef = useRef(handleCategoryChange);
+  handleCategoryChangeRef.current = handleCategoryChange;
+
+  // Deal for the page that was opened. A ?seed= code replays that round instead, without
+  // touching saved settings.
+  useEffect(() => {
+    const replay = readSeedParam(window.location.search);
+    if (replay) {
+      handleCategoryChangeRef.current(replay.filter, replay);
     } else {
-      console.log('🖥️ Generating random pair with category:', category);
-      generateRandomPair(category);
+      openRouteRef.current(parseRoute(window.location.pathname));
+    }
+    // Cleanup ref on unmount
+    return () => {
+       if (nextActionTimerRef.current) clearTimeout(nextActionTimerRef.current);
+       if (confettiTimerRef.current) clearTimeout(confettiTimerRef.current);
     }
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => openRouteRef.current(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handleRulesChange = (preset: RulesPresetId) => {
+    setShowSetup(false);
+    setRules(preset);
+    // Start a fresh classic round under the new rules
+    playCategory(state.selectedCategory, { uniqueDisplayTarget: RULES_PRESETS[preset].rules.uniqueDisplayTarget });
   };
 
-  const handlePlayAgain = () => {
+  const handleChallengeFormatChange = (format: ChallengeFormat) => {
+    setChallengeFormat(format);
+    // A grid of a different size is a different game; start the round over
+    playCategory(state.selectedCategory, { format });
+  };
+
+  const handleLayoutChange = (newLayout: GameLayout) => {
+    setLayout(newLayout);
+    playCategory(state.selectedCategory, { layout: newLayout });
+  };
+
+  // Endless rounds have no last guess, so the player ends them
+  const handleEndRound = () => {
+    clearAdvanceTimer();
+    finishRound(seedCode);
+  };
+
+  const startBlitzRound = () => {
     hideSummary();
     resetGame();
-    // Unblock any stuck state from previous round
-    if (nextActionTimerRef.current) {
-      clearTimeout(nextActionTimerRef.current);
-      nextActionTimerRef.current = null;
+    setMode('blitz');
+    setDailyChallenge(null);
+    setFriendChallenge(null);
+    navigate(playPath(state.selectedCategory));
+
+    // Blitz plays the selected category; the clock starts with fresh images on screen
+    startRounds('blitz', state.selectedCategory, { uniqueDisplayTarget: BLITZ_RULES.uniqueDisplayTarget });
+    startBlitz();
+  };
+
+  const handlePlayAgain = () => {
+    // The daily can only be played once, so "play again" goes back to the classic game
+    if (isDaily) {
+      playCategory(state.selectedCategory);
+      return;
     }
-    setIsAdvancing(false);
-    
-    if (isMobile) {
-      initializeMobileGame();
-    } else {
-      generateRandomPair(state.selectedCategory);
+    if (isBlitz) {
+      startBlitzRound();
+      return;
     }
+    playCategory(state.selectedCategory);
   };
 
-  // --- Desktop Image Selection ---
-  const handleImageSelect = useCallback((imageId: string) => {
-    if (state.selectedImageId || state.showFeedback || isMobile) return;
-    selectImage(imageId);
-    if (currentPair) {
-      const isCorrect = imageId === currentPair.aiImage.id;
-      showFeedback(isCorrect);
-      
-    }
-  }, [state.selectedImageId, state.showFeedback, isMobile, currentPair, selectImage, showFeedback]);
+  // What the current round shows, in display order
+  const candidates = useMemo(() => round?.candidates ?? [], [round]);
+  const target: ChallengeTarget = round?.target ?? 'ai';
+  const singleImage = isSingle ? candidates[0] ?? null : null;
+  const gridColumns = candidates.length > 4 ? 3 : Math.max(candidates.length, 2);
+  // Grids are navigated with a focus ring; pairs keep the one-key ArrowLeft/ArrowRight picks
+  const [focusedIndex, setFocusedIndex] = useState(0);
+
+  const blitzSummary = isBlitz && state.blitz ? summarizeBlitz(state.blitz.points, state.guesses) : undefined;
+
+  const upcomingRounds = useMemo(() => (engine ? peekUpcomingRounds(engine, OFFLINE_WINDOW_ROUNDS) : []), [engine]);
+
+  // The images on screen load first, then the next deals; anything else is cancelled
+  useEffect(() => {
+    const images = [...(round?.candidates ?? []), ...upcomingRounds.slice(0, PRELOAD_ROUNDS).flat()];
+    getImagePreloader().want(images.map(getCardImageSrc));
+  }, [round, upcomingRounds]);
+  useEffect(() => () => getImagePreloader().want([]), []);
 
-  // --- Mobile Guessing Logic ---
-  const handleMobileGuess = useCallback((guess: 'real' | 'ai') => {
-    if (state.showFeedback || !currentMobileImage || !isMobile || isAdvancing) return;
-    // Logic: you get a point if you correctly identify what the image actually is
-    // - Tap "AI" if you think it's AI-generated (correct if image.isAI is true)
-    // - Tap "Real" if you think it's real (correct if image.isAI is false)
-    const isCorrect = (guess === 'ai' && currentMobileImage.isAI) || (guess === 'real' && !currentMobileImage.isAI);
-    showFeedback(isCorrect);
+  // Keep the next deals' images in the service worker's cache. Not their metadata: it gives the
+  // answer away, so the worker only caches it when the reveal loads it.
+  useEffect(() => {
+    prefetchForOffline(upcomingRounds.flat().map(getCardImageSrc));
+  }, [upcomingRounds]);
 
+  // When the current images appeared, for per-guess response times
+  const shownAtRef = useRef(Date.now());
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+    setPendingChoice(null);
+    setFocusedIndex(0);
+  }, [round]);
+
+  // --- Guessing ---
+  // Every answer is "this image is <guess>". The single layout asks real or AI about its one image;
+  // the pairs layout has the player click the image that is the round's target.
+  const handleGuess = useCallback((chosenImageId: string, guess: 'real' | 'ai', confidence?: number) => {
+    if (!round || state.selectedImageId || state.showFeedback || state.blitz?.expired) return;
+    if (asksConfidence && confidence === undefined) {
+      setPendingChoice({ imageId: chosenImageId, guess });
+      return;
+    }
+    const answeredAt = Date.now();
+    const guessRecord = answerRound(round, {
+      chosenImageId,
+      guess,
+      responseTimeMs: answeredAt - shownAtRef.current,
+      answeredAt,
+      confidence,
+    });
+    if (!guessRecord) return;
+    setPendingChoice(null);
+    selectImage(chosenImageId);
+    showFeedback(guessRecord, { replay: isReplay });
 
     // Attempt to blur buttons immediately after guess
     realButtonRef.current?.blur();
     aiButtonRef.current?.blur();
-  }, [state.showFeedback, currentMobileImage, isMobile, isAdvancing, showFeedback]);
-
-  // --- Mobile Advancement Logic --- 
-  const advanceMobileImage = useCallback(() => {
-    setIsAdvancing(true); // Block interactions START
-
-    let nextIndex = masterMobileIndex + 1;
-    let currentList = masterMobileList;
-    let newUniqueCount = uniqueImagesShownCount + 1;
-    let needsReshuffle = false;
-
-    // Check if we need to reshuffle (either reached target unique count or end of list)
-    if (newUniqueCount >= UNIQUE_DISPLAY_COUNT_TARGET || nextIndex >= currentList.length) {
-      // Only log reshuffle reason if list has items
-      if (currentList.length > 0) {
-         needsReshuffle = true;
-      } else {
-         setCurrentMobileImage(null); // No image to show
-         return;
-      }
-      
-      currentList = shuffleArray([...currentList]); // Reshuffle the list
-      setMasterMobileList(currentList); // Update state with shuffled list
-      nextIndex = 0; // Reset index to the start of the shuffled list
-      // Reset unique count *only if* reshuffling because target was met
-      if (newUniqueCount >= UNIQUE_DISPLAY_COUNT_TARGET) {
-          newUniqueCount = 0;
-      }
-    }
+  }, [round, state.selectedImageId, state.showFeedback, state.blitz?.expired, asksConfidence, isReplay, selectImage, showFeedback]);
 
-    // Ensure the list is not empty after potential shuffle
-    if (currentList.length === 0) {
-      setCurrentMobileImage(null);
-      return;
-    }
-    
-    // Handle potential infinite loop if list has only 1 item and we reshuffle
-    if (currentList.length === 1 && needsReshuffle) {
-        // This is a rare edge case, but good to handle.
-    }
+  const handleImageSelect = useCallback((imageId: string) => {
+    if (!isSingle) handleGuess(imageId, target);
+  }, [isSingle, target, handleGuess]);
+
+  const handleSingleGuess = useCallback((guess: 'real' | 'ai') => {
+    if (singleImage) handleGuess(singleImage.id, guess);
+  }, [singleImage, handleGuess]);
+
+  // Second step of a confidence-rated guess
+  const handleConfidencePick = useCallback((confidence: number) => {
+    if (pendingChoice) handleGuess(pendingChoice.imageId, pendingChoice.guess, confidence);
+  }, [pendingChoice, handleGuess]);
 
-    setCurrentMobileImage(currentList[nextIndex]);
-    setMasterMobileIndex(nextIndex);
-    setUniqueImagesShownCount(newUniqueCount);
-    
+  // --- Advancement ---
+  const advanceRound = () => {
+    nextPair();
+    advanceEngine();
     // Reset swipe animation state
     setSwipeDirectionForExit(null);
-    // swipe state reset removed
-    
-    // Reset feedback state using game state hook
-    nextPair();
-
     // Blur buttons to try and remove sticky hover/focus states
     realButtonRef.current?.blur();
     aiButtonRef.current?.blur();
-
-    setIsAdvancing(false); // Unblock interactions END
     setButtonResetKey(prevKey => prevKey + 1); // Increment key to reset buttons
-
-  }, [masterMobileList, masterMobileIndex, uniqueImagesShownCount, nextPair]);
+  };
+  // The timer below reads this, so re-renders (like blitz ticks) don't restart it
+  const advanceRoundRef = useRef(advanceRound);
+  advanceRoundRef.current = advanceRound;
 
   // --- Feedback Timer --- (Simplified)
   useEffect(() => {
@@ -319,30 +473,60 @@ const GameBoard: React.FC = () => {
       }
     };
 
-    if (state.showFeedback) {
+    // The last guess leads to the summary, so there is nothing to advance to
+    const roundFinished = rules.roundLength !== null && state.totalAttempts >= rules.roundLength;
+
+    if (state.showFeedback && !roundFinished && !isExplaining) {
       clearExistingTimer();
-      nextActionTimerRef.current = setTimeout(() => {
-        if (isMobile) {
-          advanceMobileImage();
-        } else {
-          // Desktop: Reset feedback and fetch next pair
-          nextPair();
-          generateRandomPair(state.selectedCategory);
-        }
-      }, 750);
+      nextActionTimerRef.current = setTimeout(() => advanceRoundRef.current(), rules.advanceDelayMs);
     }
 
     return clearExistingTimer;
-  }, [state.showFeedback, isMobile, advanceMobileImage, nextPair, generateRandomPair, state.selectedCategory]);
+  }, [state.showFeedback, state.totalAttempts, rules, isExplaining]);
+
+  // --- Daily Attempt ---
+  // Saved with every guess, so leaving mid-round uses up the day's attempt but can resume it
+  useEffect(() => {
+    if (!isDaily || !dailyChallenge || state.guesses.length === 0) return;
+    saveDailyResult({
+      dateKey: dailyChallenge.dateKey,
+      layout: dailyChallenge.layout,
+      score: state.score,
+      totalAttempts: state.totalAttempts,
+      correctStreak: state.correctStreak,
+      bestStreak: state.bestStreak,
+      results: state.results,
+      guesses: state.guesses,
+      inProgress: state.totalAttempts < dailyChallenge.rounds.length || undefined,
+    });
+  }, [isDaily, dailyChallenge, state.guesses, state.score, state.totalAttempts, state.correctStreak, state.bestStreak, state.results]);
 
   // --- Game End Check ---
+  // Endless rounds only end when the player ends them
+  const roundComplete = rules.roundLength !== null && state.totalAttempts >= rules.roundLength && state.showFeedback;
   useEffect(() => {
-    if (state.totalAttempts >= 10 && state.showFeedback) {
-      setTimeout(() => {
-        showSummary();
-      }, 1000); // Show summary after feedback
+    if (!roundComplete) return;
+    // Record the round and show the summary after the feedback. Starting over before then cancels it.
+    const summaryTimer = setTimeout(() => finishRound(seedCode), 1000);
+    return () => clearTimeout(summaryTimer);
+  }, [roundComplete, finishRound, seedCode]);
+
+  // --- Blitz Clock ---
+  // Each tick re-renders, which schedules the next one; time left is derived from the end time
+  useEffect(() => {
+    if (!state.blitz || state.blitz.expired) return;
+    if (state.blitz.timeLeftMs > 0) {
+      const tickTimer = setTimeout(tickBlitz, BLITZ_TICK_MS);
+      return () => clearTimeout(tickTimer);
     }
-  }, [state.totalAttempts, state.showFeedback, showSummary]);
+
+    if (nextActionTimerRef.current) {
+      clearTimeout(nextActionTimerRef.current);
+      nextActionTimerRef.current = null;
+    }
+    expireBlitz();
+    finishRound(seedCode);
+  }, [state.blitz, tickBlitz, expireBlitz, finishRound, seedCode]);
 
   // --- Confetti Effect (Keep) ---
    useEffect(() => {
@@ -354,7 +538,7 @@ const GameBoard: React.FC = () => {
     };
     if (state.isCorrect && state.showFeedback) {
       // Perfect score logic
-      if (state.correctStreak > 0 && state.correctStreak % 5 === 0) {
+      if (state.correctStreak > 0 && state.correctStreak % rules.confettiStreakInterval === 0) {
         setShowConfetti(true);
         clearConfettiTimer(); // Clear any existing timer
         confettiTimerRef.current = setTimeout(() => {
@@ -366,12 +550,13 @@ const GameBoard: React.FC = () => {
        setShowConfetti(false);
        clearConfettiTimer();
     }
-    
+
     // Cleanup on unmount
     return () => clearConfettiTimer();
-  }, [state.isCorrect, state.showFeedback, state.correctStreak]);
+  }, [state.isCorrect, state.showFeedback, state.correctStreak, rules.confettiStreakInterval]);
 
-  // Disable body scroll on mobile for better swipe experience
+  // Disable page scroll for the single layout on phones; it fits the screen
+  const locksScroll = isMobile && isSingle;
   useEffect(() => {
     const mainScrollContainer = document.getElementById('main-scroll-container');
     let originalOverflowY = '';
@@ -379,7 +564,7 @@ const GameBoard: React.FC = () => {
       originalOverflowY = mainScrollContainer.style.overflowY;
     }
 
-    if (isMobile) {
+    if (locksScroll) {
       if (mainScrollContainer) {
         mainScrollContainer.style.overflowY = 'hidden';
       }
@@ -394,34 +579,59 @@ const GameBoard: React.FC = () => {
         mainScrollContainer.style.overflowY = originalOverflowY || 'auto'; // Restore on unmount
       }
     };
-  }, [isMobile]);
+  }, [locksScroll]);
 
-  // --- Keyboard & Drag handlers ---
+  // --- Keyboard handlers ---
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     // If feedback is showing, don't allow key presses
     if (state.showFeedback) {
       return;
     }
 
-    // On desktop, allow left/right arrow keys to select image
-    if (!isMobile && currentPair) {
+    // While a confidence-rated guess is pending, 1-4 pick the level and Escape takes the answer back
+    if (pendingChoice) {
+      const level = CONFIDENCE_LEVELS[Number(event.key) - 1];
+      if (level !== undefined) {
+        handleConfidencePick(level);
+        return;
+      }
+      if (event.key === 'Escape') {
+        setPendingChoice(null);
+        return;
+      }
+    }
+
+    // Single layout: left/right arrow keys for "Real" or "AI"
+    if (singleImage) {
       if (event.key === 'ArrowLeft') {
-        const currentShuffled = getShuffledImages();
-        if (currentShuffled.length > 0) handleImageSelect(currentShuffled[0].id);
+        handleSingleGuess('real');
       } else if (event.key === 'ArrowRight') {
-        const currentShuffled = getShuffledImages();
-        if (currentShuffled.length > 1) handleImageSelect(currentShuffled[1].id);
+        handleSingleGuess('ai');
       }
     }
-    // On mobile, allow left/right arrow keys for "Real" or "AI"
-    else if (isMobile && currentMobileImage) {
+    // Pairs: left/right arrow keys select an image
+    else if (candidates.length === 2) {
       if (event.key === 'ArrowLeft') {
-        handleMobileGuess('real');
+        handleImageSelect(candidates[0].id);
       } else if (event.key === 'ArrowRight') {
-        handleMobileGuess('ai');
+        handleImageSelect(candidates[1].id);
       }
     }
-  }, [state.showFeedback, isMobile, currentPair, getShuffledImages, handleImageSelect, currentMobileImage, handleMobileGuess]);
+    // Grids: arrows move the focus ring, Enter or Space picks, and 1-N pick directly
+    else if (candidates.length > 2) {
+      const count = candidates.length;
+      const moves: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -gridColumns, ArrowDown: gridColumns };
+      if (event.key in moves) {
+        event.preventDefault();
+        setFocusedIndex(index => Math.min(count - 1, Math.max(0, index + moves[event.key])));
+      } else if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        handleImageSelect(candidates[Math.min(focusedIndex, count - 1)].id);
+      } else if (!pendingChoice && Number(event.key) >= 1 && Number(event.key) <= count) {
+        handleImageSelect(candidates[Number(event.key) - 1].id);
+      }
+    }
+  }, [state.showFeedback, pendingChoice, handleConfidencePick, singleImage, handleSingleGuess, candidates, gridColumns, focusedIndex, handleImageSelect]);
 
    // Effect to add and remove event listener
    useEffect(() => {
@@ -431,23 +641,16 @@ const GameBoard: React.FC = () => {
     };
   }, [handleKeyDown]); // Dependency array is important
 
-  // Drag handler removed (no swipe on mobile)
-
   // --- Loading and Error States ---
-  const isLoading = isMobile ? mobileLoading : pairLoading;
-  const error = isMobile ? mobileError : pairError;
-
-  if (error) {
-    return <div className="game-board-container"><div className="error-message">Error: {error}</div></div>;
+  if (engine?.error) {
+    return <div className="game-board-container"><div className="error-message">Error: {engine.error}</div></div>;
   }
 
-  if (isLoading) {
+  if (!engine) {
     return <div className="game-board-container"><div className="loading-spinner"></div></div>;
   }
 
   // --- Render Logic ---
-  const shuffledDesktopImages = getShuffledImages(); // Desktop only
-
   // Animation variants (Keep)
   const imageVariants = {
       hidden: { opacity: 0, scale: 0.9, x: 0, rotate: 0 },
@@ -483,7 +686,11 @@ const GameBoard: React.FC = () => {
             </a>
             <CategoryFilter 
               selectedCategory={state.selectedCategory}
-              onCategoryChange={handleCategoryChange}
+              onCategoryChange={playCategory}
+              isDaily={isDaily}
+              onDailySelect={openDaily}
+              isBlitz={isBlitz}
+              onBlitzSelect={startBlitzRound}
               isMobile={true}
             />
           </>
@@ -495,23 +702,30 @@ const GameBoard: React.FC = () => {
             </a>
             <CategoryFilter 
               selectedCategory={state.selectedCategory}
-              onCategoryChange={handleCategoryChange}
+              onCategoryChange={playCategory}
+              isDaily={isDaily}
+              onDailySelect={openDaily}
+              isBlitz={isBlitz}
+              onBlitzSelect={startBlitzRound}
               isMobile={false}
             />
           </>
         )}
+        {isBlitz && state.blitz && !state.showSummary && (
+          <BlitzCountdown timeLeftMs={state.blitz.timeLeftMs} points={state.blitz.points} />
+        )}
       </div>
 
       <div className="flex-grow flex flex-col items-center mb-0 relative min-h-0">
-        {isMobile ? (
-          // ------------- MOBILE VIEW (Refactored) -------------
+        {isSingle ? (
+          // ------------- SINGLE LAYOUT -------------
           <div className="flex flex-col items-center flex-grow relative w-full min-h-0">
-            {/* --- Updated Mobile Image Container --- */}
-            <div className="relative w-[98%] mx-auto aspect-square flex justify-center items-center mb-1"> {/* Use 98% width */} 
+            {/* --- Image Container --- */}
+            <div className="relative w-[98%] max-w-xl mx-auto aspect-square flex justify-center items-center mb-1"> {/* Use 98% width */} 
               <AnimatePresence mode="wait" custom={swipeDirectionForExit}>
-                {!state.showSummary && currentMobileImage ? (
+                {!state.showSummary && singleImage ? (
                   <motion.div
-                    key={currentMobileImage.id}
+                    key={singleImage.id}
                   className="absolute w-full h-full z-10 overflow-hidden rounded-lg"
                     style={{ touchAction: 'pan-y' }}
                     variants={imageVariants}
@@ -521,7 +735,7 @@ const GameBoard: React.FC = () => {
                     custom={swipeDirectionForExit}
                   >
                     <ImageCard
-                      image={currentMobileImage}
+                      image={singleImage}
                       selected={false}
                       showResult={false}
                       isCorrect={null}
@@ -536,9 +750,17 @@ const GameBoard: React.FC = () => {
                        totalAttempts={state.totalAttempts}
                        category={state.selectedCategory}
                        onPlayAgain={handlePlayAgain}
-                       onCategoryChange={handleCategoryChange}
+                       onCategoryChange={playCategory}
                        isMobile={true}
-                       streak={state.correctStreak}
+                       streak={state.bestStreak}
+                       results={state.results}
+                       guesses={state.guesses}
+                       dailyKey={isDaily ? getDailyKey() : undefined}
+                       blitz={blitzSummary}
+                       seedCode={seedCode}
+                       challengeCode={challengeCode}
+                       friendChallenge={friendChallenge?.challenge ?? undefined}
+                       leaderboardSubmission={leaderboardSubmission}
                        isFlipped={mobileShareFlipped}
                      />
                    </div>
@@ -549,7 +771,7 @@ const GameBoard: React.FC = () => {
 
               {/* ... Inline Feedback Emoji ... */} 
               <AnimatePresence>
-                {state.showFeedback && currentMobileImage && !state.showSummary && (
+                {state.showFeedback && singleImage && !state.showSummary && (
                   <motion.div key="feedback-emoji-inline" className="absolute inset-0 z-30 flex items-center justify-center bg-white/60 rounded-lg pointer-events-none" variants={feedbackInlineVariants} initial="hidden" animate="visible" exit="exit">
                     <span className="text-7xl">{state.isCorrect ? '✅' : '❌'}</span>
                   </motion.div>
@@ -557,16 +779,25 @@ const GameBoard: React.FC = () => {
              </AnimatePresence>
             </div>
 
-            {/* ... Mobile Buttons ... */} 
+            {/* ... Real / AI Buttons ... */} 
             <div className="flex-shrink-0 w-full">
-              {currentMobileImage && !state.showSummary && (
+              {singleImage && !state.showSummary && pendingChoice && (
+                <div className="mt-2 mb-3">
+                  <ConfidencePicker
+                    prompt={`You said ${pendingChoice.guess === 'ai' ? 'AI' : 'Real'}. How sure are you?`}
+                    onPick={handleConfidencePick}
+                    onCancel={() => setPendingChoice(null)}
+                  />
+                </div>
+              )}
+              {singleImage && !state.showSummary && !pendingChoice && (
                 <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.2, delay: 0.5 }} className="flex justify-center gap-4 w-full max-w-md mx-auto px-4 mt-2 mb-3">
-                  <motion.button ref={realButtonRef} key={`real-button-${buttonResetKey}`} onClick={() => handleMobileGuess('real')} disabled={state.showFeedback || isAdvancing} animate={{ opacity: state.showFeedback ? 0.3 : 1 }} transition={{ duration: 0.2 }}
-                    className={`flex-grow basis-0 px-5 py-2 text-gray-700 bg-white rounded-full border-2 border-gray-200 disabled:opacity-50 disabled:bg-white text-base flex items-center justify-center gap-2 ${!state.showFeedback && !isAdvancing ? 'md:hover:bg-gray-50' : ''}`}>
+                  <motion.button ref={realButtonRef} key={`real-button-${buttonResetKey}`} onClick={() => handleSingleGuess('real')} disabled={state.showFeedback} animate={{ opacity: state.showFeedback ? 0.3 : 1 }} transition={{ duration: 0.2 }}
+                    className={`flex-grow basis-0 px-5 py-2 text-gray-700 bg-white rounded-full border-2 border-gray-200 disabled:opacity-50 disabled:bg-white text-base flex items-center justify-center gap-2 ${!state.showFeedback ? 'md:hover:bg-gray-50' : ''}`}>
                     <span className="text-xl">📷</span> Real
                   </motion.button>
-                  <motion.button ref={aiButtonRef} key={`ai-button-${buttonResetKey}`} onClick={() => handleMobileGuess('ai')} disabled={state.showFeedback || isAdvancing} animate={{ opacity: state.showFeedback ? (currentMobileImage.isAI ? 1 : 0.3) : 1 }} transition={{ duration: 0.2 }}
-                    className={`flex-grow basis-0 px-5 py-2 text-gray-700 bg-white rounded-full border-2 border-gray-200 disabled:opacity-50 disabled:bg-white text-base flex items-center justify-center gap-2 ${!state.showFeedback && !isAdvancing ? 'md:hover:bg-gray-50' : ''}`}>
+                  <motion.button ref={aiButtonRef} key={`ai-button-${buttonResetKey}`} onClick={() => handleSingleGuess('ai')} disabled={state.showFeedback} animate={{ opacity: state.showFeedback ? (isAIImage(singleImage) ? 1 : 0.3) : 1 }} transition={{ duration: 0.2 }}
+                    className={`flex-grow basis-0 px-5 py-2 text-gray-700 bg-white rounded-full border-2 border-gray-200 disabled:opacity-50 disabled:bg-white text-base flex items-center justify-center gap-2 ${!state.showFeedback ? 'md:hover:bg-gray-50' : ''}`}>
                     <span className="text-xl">🤖</span> AI
                   </motion.button>
                 </motion.div>
@@ -578,7 +809,7 @@ const GameBoard: React.FC = () => {
                     className="rounded-full px-6 py-3 text-base bg-gray-900 text-white hover:bg-black flex items-center gap-2"
                   >
                     <RefreshCw className="w-4 h-4" />
-                    Play again
+                    {isDaily ? 'Play classic' : 'Play again'}
                   </button>
                   <button
                     onClick={handleMobileShareFlip}
@@ -600,19 +831,26 @@ const GameBoard: React.FC = () => {
             {/* --- Score Display (Moved below buttons) --- */}
             {!state.showSummary && (
               <div className="w-full flex justify-center mb-4 flex-shrink-0">
-                  <ScoreDisplay score={state.score} totalAttempts={state.totalAttempts} onReset={handleResetGame} />
+                <ScoreDisplay
+                  score={state.score}
+                  totalAttempts={state.totalAttempts}
+                  roundLength={rules.roundLength}
+                  onReset={handleResetGame}
+                  onFinish={rules.roundLength === null && !isBlitz ? handleEndRound : undefined}
+                  onOpenSetup={isDaily || isBlitz ? undefined : () => setShowSetup(true)}
+                />
               </div>
             )}
           </div>
 
         ) : (
-          // ------------- DESKTOP VIEW (Largely Unchanged) -------------
+          // ------------- PAIRS LAYOUT -------------
           <div className="flex-grow flex flex-col min-h-0 w-full">
             <div className="relative w-full mt-2"> {/* Reduced top margin */}
               {!state.showSummary ? (
                 <>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4 md:px-4 2xl:px-0">
-                    {shuffledDesktopImages.map((image) => (
+                  <div className={`grid ${GRID_CLASSES[gridColumns]} gap-6 mb-4 md:px-4 2xl:px-0`}>
+                    {candidates.map((image, index) => (
                       <ImageCard
                         key={image.id}
                         image={image}
@@ -620,17 +858,39 @@ const GameBoard: React.FC = () => {
                         showResult={state.showFeedback && state.selectedImageId === image.id}
                         isCorrect={state.isCorrect ?? false}
                         onSelect={() => handleImageSelect(image.id)}
+                        highlighted={pendingChoice?.imageId === image.id}
+                        focused={candidates.length > 2 && focusedIndex === index && !state.showFeedback}
                         disabled={state.showFeedback || !!state.selectedImageId}
+                        onWhyOpenChange={setIsExplaining}
                       />
                     ))}
                   </div>
                   <div className="w-full flex justify-center mt-6 mb-3 md:mt-4 md:mb-2">
-                    <p className="text-gray-600 text-center text-base md:text-sm lg:text-base">
-                      Click on the image you think is <strong>AI-generated</strong>.
-                    </p>
+                    {pendingChoice ? (
+                      <ConfidencePicker
+                        prompt={`How sure are you that this one is ${target === 'ai' ? 'AI' : 'real'}?`}
+                        onPick={handleConfidencePick}
+                        onCancel={() => setPendingChoice(null)}
+                      />
+                    ) : target === 'ai' ? (
+                      <p className="text-gray-600 text-center text-base md:text-sm lg:text-base">
+                        Click on the image you think is <strong>AI-generated</strong>.
+                      </p>
+                    ) : (
+                      <p className="text-gray-600 text-center text-base md:text-sm lg:text-base">
+                        Only one of these is a <strong>real photo</strong>. Click on it.
+                      </p>
+                    )}
                   </div>
                   <div className="w-full flex justify-center mt-2 mb-1 md:mt-2">
-                    <ScoreDisplay score={state.score} totalAttempts={state.totalAttempts} onReset={handleResetGame} />
+                    <ScoreDisplay
+                      score={state.score}
+                      totalAttempts={state.totalAttempts}
+                      roundLength={rules.roundLength}
+                      onReset={handleResetGame}
+                      onFinish={rules.roundLength === null && !isBlitz ? handleEndRound : undefined}
+                      onOpenSetup={isDaily || isBlitz ? undefined : () => setShowSetup(true)}
+                    />
                   </div>
                 </>
               ) : (
@@ -641,9 +901,16 @@ const GameBoard: React.FC = () => {
                       totalAttempts={state.totalAttempts}
                       category={state.selectedCategory}
                       onPlayAgain={handlePlayAgain}
-                      onCategoryChange={handleCategoryChange}
+                      onCategoryChange={playCategory}
                       isMobile={false}
-                      streak={state.correctStreak}
+                      streak={state.bestStreak}
+                      results={state.results}
+                      guesses={state.guesses}
+                      dailyKey={isDaily ? getDailyKey() : undefined}
+                      blitz={blitzSummary}
+                      seedCode={seedCode}
+                      challengeCode={challengeCode}
+                      friendChallenge={friendChallenge?.challenge ?? undefined}
                     />
                   </div>
                   <div className="rounded-lg bg-white p-6 flex items-stretch">
@@ -652,9 +919,15 @@ const GameBoard: React.FC = () => {
                       totalAttempts={state.totalAttempts}
                       category={state.selectedCategory}
                       onPlayAgain={handlePlayAgain}
-                      onCategoryChange={handleCategoryChange}
+                      onCategoryChange={playCategory}
                       isMobile={false}
-                      streak={state.correctStreak}
+                      streak={state.bestStreak}
+                      results={state.results}
+                      guesses={state.guesses}
+                      dailyKey={isDaily ? getDailyKey() : undefined}
+                      blitz={blitzSummary}
+                      challengeCode={challengeCode}
+                      leaderboardSubmission={leaderboardSubmission}
                       showShareOnly={true}
                     />
                   </div>
@@ -665,13 +938,27 @@ const GameBoard: React.FC = () => {
         )}
       </div>
 
-      {/* ... Desktop Feedback Button ... */}
-      <div className={`w-full flex justify-center ${isMobile ? 'flex-shrink-0' : ''}`}>
-          { !isMobile && state.showFeedback && (
-            <div className="mt-2"><Feedback isCorrect={state.isCorrect} onNext={() => { nextPair(); generateRandomPair(state.selectedCategory); }} /></div>
+      {/* ... Pairs Feedback Button ... */}
+      <div className={`w-full flex justify-center ${isSingle ? 'flex-shrink-0' : ''}`}>
+          { !isSingle && state.showFeedback && (
+            <div className="mt-2"><Feedback isCorrect={state.isCorrect} onNext={advanceRound} /></div>
           )}
       </div>
 
+      {showSetup && (
+        <SetupScreen
+          selectedPreset={state.rulesPreset}
+          onSelect={handleRulesChange}
+          confidenceEnabled={state.confidenceEnabled}
+          onConfidenceChange={setConfidenceEnabled}
+          layout={state.layout}
+          onLayoutChange={handleLayoutChange}
+          challengeFormat={state.challengeFormat}
+          onChallengeFormatChange={handleChallengeFormatChange}
+          onClose={() => setShowSetup(false)}
+        />
+      )}
+
       {/* Summary is embedded per-view above */}
     </div>
   );
@@ -1,7 +1,39 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { ZoomIn } from 'lucide-react';
-import { Image } from '../types';
+import { HelpCircle, ZoomIn } from 'lucide-react';
+import { DifficultyLevel, Image, ImageMetadata } from '../types';
+import { isAIImage, loadImageMetadata } from '../data/images';
+import { IMAGE_FORMAT_TYPES, toSrcSet } from '../data/imageVariants';
+import { getCardImageSrc } from '../data/cardImage';
+import { getImageDifficulty, loadRatings } from '../data/ratings';
+import { getCrowdTransport } from '../crowd/client';
+import { getFooledShare } from '../crowd/stats';
+import WhyPanel from './WhyPanel';
+import { usePreloadedImage } from '../hooks/usePreloadedImage';
+import { createLogger } from '../utils/logger';
+import { track } from '../analytics/track';
+
+const log = createLogger('ImageCard');
+
+const difficultyStyles: Record<DifficultyLevel, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-amber-100 text-amber-800',
+  hard: 'bg-red-100 text-red-800',
+};
+
+interface VariantPictureProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  image: Image;
+  sizes: string;
+}
+
+// Lets the browser choose the format and width; the <img> falls back to JPEG
+const VariantPicture: React.FC<VariantPictureProps> = ({ image, sizes, ...imgProps }) => (
+  <picture>
+    <source type={IMAGE_FORMAT_TYPES.avif} srcSet={toSrcSet(image.variants.avif)} sizes={sizes} />
+    <source type={IMAGE_FORMAT_TYPES.webp} srcSet={toSrcSet(image.variants.webp)} sizes={sizes} />
+    <img src={image.src} srcSet={toSrcSet(image.variants.jpeg)} sizes={sizes} {...imgProps} />
+  </picture>
+);
 
 interface ImageCardProps {
   image: Image;
@@ -10,6 +42,9 @@ interface ImageCardProps {
   isCorrect: boolean | null;
   onSelect: (id: string) => void;
   disabled: boolean;
+  highlighted?: boolean; // Picked, waiting for a confidence level
+  focused?: boolean; // Keyboard focus in a grid
+  onWhyOpenChange?: (open: boolean) => void;
 }
 
 const ImageCard: React.FC<ImageCardProps> = ({
@@ -19,46 +54,56 @@ const ImageCard: React.FC<ImageCardProps> = ({
   isCorrect,
   onSelect,
   disabled,
+  highlighted = false,
+  focused = false,
+  onWhyOpenChange,
 }) => {
-  const [isFullImageLoaded, setIsFullImageLoaded] = useState(false);
-  const [objectUrl, setObjectUrl] = useState<string | null>(null);
-  const objectUrlRef = useRef<string | null>(null);
+  const cardSrc = getCardImageSrc(image);
+  const preloaded = usePreloadedImage(cardSrc);
   const [showLightbox, setShowLightbox] = useState(false);
-  const imgFullRef = useRef<HTMLImageElement>(null);
+  const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+  const [showWhy, setShowWhy] = useState(false);
+  const [difficulty, setDifficulty] = useState<DifficultyLevel | null>(null);
+  const [fooledShare, setFooledShare] = useState<number | null>(null);
 
+  // Metadata gives the answer away and the badges belong to the reveal, so all of them wait for the result
   useEffect(() => {
-    // Reset loaded state when image src changes
-    setIsFullImageLoaded(false);
-
-    if (image.src) {
-      if (objectUrlRef.current) {
-        URL.revokeObjectURL(objectUrlRef.current);
-        objectUrlRef.current = null;
-      }
-      fetch(image.src)
-        .then((res) => res.blob())
-        .then((blob) => {
-          const url = URL.createObjectURL(blob);
-          objectUrlRef.current = url;
-          setObjectUrl(url);
-          setIsFullImageLoaded(true);
-        })
-        .catch(() => {
-          setIsFullImageLoaded(true);
-        });
-    }
-    return () => {
-      if (objectUrlRef.current) {
-        URL.revokeObjectURL(objectUrlRef.current);
-        objectUrlRef.current = null;
-      }
-    };
-  }, [image.src]);
+    setMetadata(null);
+    setShowWhy(false);
+    setDifficulty(null);
+    setFooledShare(null);
+    if (!showResult) return;
+
+    setDifficulty(getImageDifficulty(loadRatings(), image.id));
+
+    let cancelled = false;
+    loadImageMetadata(image)
+      .then((loaded) => { if (!cancelled) setMetadata(loaded); })
+      .catch((error) => log.warn('Could not load image metadata:', error));
+    getCrowdTransport()
+      .getStats([image.id])
+      .then((stats) => { if (!cancelled) setFooledShare(getFooledShare(stats[image.id])); })
+      .catch((error) => log.warn('Could not load crowd stats:', error));
+    return () => { cancelled = true; };
+  }, [image, showResult]);
+
+  const setWhyOpen = (open: boolean) => {
+    setShowWhy(open);
+    onWhyOpenChange?.(open);
+  };
+
+  const hasTells = !!metadata?.tells?.length;
 
   const transparentPlaceholder = 'data:image/gif;base64,R0lGODlhAQABAAD/ACwAAAAAAQABAAACADs=';
   const placeholderSrc = image.lqipSrc || transparentPlaceholder;
-  const displaySrc = objectUrl || placeholderSrc;
-  const blurClass = image.lqipSrc && !isFullImageLoaded ? 'blur-md' : '';
+  // Images the preload queue doesn't know, like the review screen's, and failed preloads load
+  // the same variant straight from the network (or the service worker), over their placeholder
+  const preloadedSrc = preloaded?.state === 'ready' ? preloaded.url : preloaded?.state === 'loading' ? placeholderSrc : null;
+  const blurClass = image.lqipSrc && preloaded?.state === 'loading' ? 'blur-md' : '';
+  const placeholderBackground = image.lqipSrc
+    ? { backgroundImage: `url(${image.lqipSrc})`, backgroundSize: 'cover' }
+    : undefined;
+  const cardImageClass = `w-full aspect-square object-cover transition-all duration-300 ${blurClass}`;
 
   // Lock body scroll when lightbox is shown
   useEffect(() => {
@@ -75,26 +120,29 @@ const ImageCard: React.FC<ImageCardProps> = ({
     <div
       className={`relative overflow-hidden rounded-lg transition-all duration-300 ${ 
         'hover:opacity-90'
-      } ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+      } ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'} ${highlighted ? 'ring-4 ring-gray-900' : focused ? 'ring-4 ring-gray-400' : ''}`}
       onClick={(e) => {
         if (showLightbox) return; // ignore clicks when lightbox open
-        if ((e.target as HTMLElement).closest('[data-zoom-button]')) return; // ignore when clicking zoom button
+        if ((e.target as HTMLElement).closest('[data-zoom-button], [data-why-button]')) return; // ignore when clicking zoom or why button
         if (!disabled) onSelect(image.id);
       }}
     >
       
-      <img
-        src={displaySrc}
-        alt="Game image"
-        className={`w-full aspect-square object-cover transition-all duration-300 ${blurClass}`}
-        loading="lazy"
-      />
+      {preloadedSrc ? (
+        <img src={preloadedSrc} alt="Game image" className={cardImageClass} loading="lazy" />
+      ) : (
+        <img src={cardSrc} alt="Game image" style={placeholderBackground} className={cardImageClass} loading="lazy" />
+      )}
 
       {/* Zoom button */}
       <button
         type="button"
         data-zoom-button
-        onClick={(e) => { e.stopPropagation(); setShowLightbox(true); }}
+        onClick={(e) => {
+          e.stopPropagation();
+          setShowLightbox(true);
+          track('lightbox_opened', { revealed: showResult });
+        }}
         className="absolute top-2 right-2 z-20 h-7 w-7 rounded-full bg-white/85 backdrop-blur border border-gray-200 flex items-center justify-center text-gray-700 hover:bg-white shadow-sm"
         aria-label="Open fullscreen"
       >
@@ -109,7 +157,7 @@ const ImageCard: React.FC<ImageCardProps> = ({
       
       {showResult && !selected && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/60 text-gray-800 opacity-80 p-2">
-          {image.isAI ? (
+          {isAIImage(image) ? (
             <>
               <span className="text-3xl">🤖</span>
               <span className="text-sm font-medium mt-1">AI</span>
@@ -120,6 +168,37 @@ const ImageCard: React.FC<ImageCardProps> = ({
         </div>
       )}
 
+      {showResult && (difficulty || fooledShare !== null) && (
+        <div className="absolute top-2 left-2 z-20 flex flex-col items-start gap-1">
+          {difficulty && (
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${difficultyStyles[difficulty]}`}>
+              {difficulty}
+            </span>
+          )}
+          {fooledShare !== null && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-white/90 text-gray-800 border border-gray-200">
+              {Math.round(fooledShare * 100)}% of players got this wrong
+            </span>
+          )}
+        </div>
+      )}
+
+      {showResult && hasTells && (
+        <button
+          type="button"
+          data-why-button
+          onClick={(e) => { e.stopPropagation(); setWhyOpen(true); }}
+          className="absolute bottom-2 left-1/2 -translate-x-1/2 z-20 px-3 py-1 rounded-full bg-white/90 backdrop-blur border border-gray-200 flex items-center gap-1 text-sm text-gray-800 hover:bg-white shadow-sm"
+        >
+          <HelpCircle className="h-4 w-4" />
+          Why?
+        </button>
+      )}
+
+      {showWhy && metadata && (
+        <WhyPanel image={image} metadata={metadata} onClose={() => setWhyOpen(false)} />
+      )}
+
       {/* Lightbox fullscreen overlay */}
       {showLightbox && createPortal(
         <div
@@ -128,7 +207,7 @@ const ImageCard: React.FC<ImageCardProps> = ({
           role="dialog"
           aria-modal="true"
         >
-          <img ref={imgFullRef} src={image.src} alt="Full image" className="max-h-[95vh] max-w-[95vw] object-contain" />
+          <VariantPicture image={image} sizes="95vw" alt="Full image" className="max-h-[95vh] max-w-[95vw] object-contain" />
           <button
             type="button"
             onClick={(e) => { e.stopPropagation(); setShowLightbox(false); }}
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { FilterCategory, GameMode, RulesPresetId } from '../types';
+import { availableCategories } from '../data/images';
+import { DEFAULT_RULES_PRESET, RULES_PRESETS } from '../data/rules';
+import { getLeaderboardClient } from '../leaderboard/client';
+import { LEADERBOARD_PERIODS, LeaderboardPeriod, RankedEntry } from '../leaderboard/service';
+import Link from './Link';
+
+const periodLabels: Record<LeaderboardPeriod, string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  'all-time': 'All time',
+};
+
+const modeLabels: Record<GameMode, string> = {
+  classic: 'Classic',
+  daily: 'Daily',
+  blitz: 'Blitz',
+};
+
+const formatDuration = (durationMs: number): string => `${(durationMs / 1000).toFixed(1)} s`;
+
+const LeaderboardScreen: React.FC = () => {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('daily');
+  const [mode, setMode] = useState<GameMode>('classic');
+  const [category, setCategory] = useState<FilterCategory>('all');
+  const [rules, setRules] = useState<RulesPresetId>(DEFAULT_RULES_PRESET);
+  const [entries, setEntries] = useState<RankedEntry[] | null>(null);
+  const [error, setError] = useState(false);
+
+  // The daily always draws from every category
+  const boardCategory = mode === 'daily' ? 'all' : category;
+  // Only classic rounds are played under a preset of the player's choosing
+  const boardRules = mode === 'classic' ? rules : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(false);
+    getLeaderboardClient()
+      .getBoard({ mode, category: boardCategory, rules: boardRules, period })
+      .then(board => { if (!cancelled) setEntries(board); })
+      .catch(() => { if (!cancelled) setError(true); });
+    return () => { cancelled = true; };
+  }, [mode, boardCategory, boardRules, period]);
+
+  const tabClass = (active: boolean) =>
+    `text-sm hover:text-gray-900 ${active ? 'font-bold text-gray-900 underline decoration-2 underline-offset-2' : 'text-gray-500'}`;
+
+  return (
+    <section className="max-w-3xl mx-auto py-8 px-2">
+      <div className="flex items-center justify-between mb-8">
+        <Link href="/" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" />
+          Back to game
+        </Link>
+        <img src="/realorai.svg" alt="Real or AI Logo" className="h-6 w-auto" />
+      </div>
+
+      <h1 className="text-2xl font-medium text-gray-900 mb-6">Leaderboard</h1>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex gap-4">
+          {LEADERBOARD_PERIODS.map(option => (
+            <button key={option} onClick={() => setPeriod(option)} className={tabClass(period === option)}>
+              {periodLabels[option]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={mode}
+            onChange={event => setMode(event.target.value as GameMode)}
+            aria-label="Mode"
+            className="text-sm border border-gray-200 rounded-md px-2 py-1 text-gray-700"
+          >
+            {(Object.keys(modeLabels) as GameMode[]).map(option => (
+              <option key={option} value={option}>{modeLabels[option]}</option>
+            ))}
+          </select>
+          {mode === 'classic' && (
+            <select
+              value={rules}
+              onChange={event => setRules(event.target.value as RulesPresetId)}
+              aria-label="Rules"
+              className="text-sm border border-gray-200 rounded-md px-2 py-1 text-gray-700"
+            >
+              {Object.values(RULES_PRESETS).map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.label}</option>
+              ))}
+            </select>
+          )}
+          {mode !== 'daily' && (
+            <select
+              value={category}
+              onChange={event => setCategory(event.target.value as FilterCategory)}
+              aria-label="Category"
+              className="text-sm border border-gray-200 rounded-md px-2 py-1 text-gray-700"
+            >
+              {(['all', ...availableCategories] as FilterCategory[]).map(option => (
+                <option key={option} value={option}>{option.charAt(0).toUpperCase() + option.slice(1)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-gray-600">Could not load the leaderboard. Try again later.</p>
+      ) : entries === null ? (
+        <p className="text-gray-500 text-sm">Loading…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-600">No rounds yet. Finish one and submit it from the summary.</p>
+      ) : (
+        <ol className="divide-y divide-gray-100 text-sm">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-center gap-4 py-2">
+              <span className="w-8 text-right font-medium text-gray-500">{entry.rank}</span>
+              <span className="flex-1 text-gray-900 truncate">{entry.nickname}</span>
+              <span className="w-16 text-right font-medium text-gray-900">{entry.score}</span>
+              <span className="w-20 text-right text-gray-500">{formatDuration(entry.durationMs)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default LeaderboardScreen;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { getLeaderboardClient, loadNickname, saveNickname } from '../leaderboard/client';
+import { LeaderboardSubmission, MAX_NICKNAME_LENGTH } from '../leaderboard/verify';
+import { routePath } from '../routing/routes';
+import Link from './Link';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('leaderboard');
+
+interface LeaderboardSubmitProps {
+  submission: Omit<LeaderboardSubmission, 'nickname'>;
+}
+
+type SubmitStatus =
+  | { state: 'idle' }
+  | { state: 'sending' }
+  | { state: 'accepted'; rank: number }
+  | { state: 'error'; message: string };
+
+/**
+ * Nickname field and submit button for the summary's share panel.
+ */
+const LeaderboardSubmit: React.FC<LeaderboardSubmitProps> = ({ submission }) => {
+  const [nickname, setNickname] = useState(loadNickname);
+  const [status, setStatus] = useState<SubmitStatus>({ state: 'idle' });
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus({ state: 'sending' });
+    saveNickname(nickname.trim());
+    try {
+      const result = await getLeaderboardClient().submit({ ...submission, nickname });
+      setStatus(result.accepted
+        ? { state: 'accepted', rank: result.rank }
+        : { state: 'error', message: 'The leaderboard did not accept this round.' });
+      if (!result.accepted) log.warn('Round rejected:', result.problems);
+    } catch (error) {
+      log.warn('Could not submit the round:', error);
+      setStatus({ state: 'error', message: 'Could not reach the leaderboard. Try again.' });
+    }
+  };
+
+  const boardLink = (
+    <Link href={routePath({ name: 'leaderboard' })} className="underline hover:text-gray-900">
+      See the leaderboard
+    </Link>
+  );
+
+  if (status.state === 'accepted') {
+    return (
+      <p className="mt-3 text-sm text-gray-600 text-center">
+        You're #{status.rank} all-time. {boardLink}
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3">
+      <div className="flex gap-2">
+        <input
+          value={nickname}
+          onChange={event => setNickname(event.target.value)}
+          maxLength={MAX_NICKNAME_LENGTH}
+          placeholder="Nickname"
+          aria-label="Nickname for the leaderboard"
+          className="flex-1 min-w-0 rounded-full px-4 py-2 text-sm border border-gray-300 outline-none focus:ring-2 focus:ring-gray-300"
+        />
+        <button
+          type="submit"
+          disabled={!nickname.trim() || status.state === 'sending'}
+          className="rounded-full px-4 py-2 text-sm border border-gray-300 text-gray-800 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2"
+        >
+          <Trophy className="w-4 h-4" />
+          {status.state === 'sending' ? 'Sending…' : 'Submit'}
+        </button>
+      </div>
+      {status.state === 'error' && <p className="mt-2 text-xs text-red-600 text-center">{status.message}</p>}
+    </form>
+  );
+};
+
+export default LeaderboardSubmit;
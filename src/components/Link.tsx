@@ -0,0 +1,20 @@
+import React from 'react';
+import { navigate } from '../routing/routes';
+
+type LinkProps = React.AnchorHTMLAttributes<HTMLAnchorElement> & { href: string };
+
+/**
+ * An in-app link: plain clicks navigate without reloading, modified clicks open a tab as usual.
+ */
+const Link: React.FC<LinkProps> = ({ href, onClick, ...props }) => {
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+    event.preventDefault();
+    navigate(href);
+  };
+
+  return <a href={href} onClick={handleClick} {...props} />;
+};
+
+export default Link;
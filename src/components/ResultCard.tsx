@@ -0,0 +1,78 @@
+import { forwardRef } from 'react';
+import { GuessRecord, Image } from '../types';
+import { getImageById } from '../data/images';
+
+interface ResultCardProps {
+  score: number;
+  totalAttempts: number;
+  bestStreak: number;
+  categoryLabel: string;
+  guesses: GuessRecord[];
+}
+
+const MAX_MISSED_THUMBNAILS = 4;
+
+/**
+ * Fixed-size, branded summary that gets rendered to a PNG for sharing.
+ * It is never shown on screen; SummaryScreen mounts it off-canvas while rendering.
+ */
+const ResultCard = forwardRef<HTMLDivElement, ResultCardProps>(({
+  score,
+  totalAttempts,
+  bestStreak,
+  categoryLabel,
+  guesses,
+}, ref) => {
+  const accuracy = totalAttempts > 0 ? Math.round((score / totalAttempts) * 100) : 0;
+  const missed = guesses
+    .filter(guess => !guess.isCorrect)
+    .slice(0, MAX_MISSED_THUMBNAILS)
+    .map(guess => ({
+      guess,
+      images: guess.imageIds.map(getImageById).filter((image): image is Image => !!image),
+    }))
+    .filter(item => item.images.length > 0);
+
+  return (
+    <div ref={ref} className="w-[540px] h-[540px] bg-white p-10 flex flex-col font-sans">
+      <div className="flex items-center justify-between mb-8">
+        <img src="/realorai.svg" alt="Real or AI" className="h-8 w-auto" />
+        <span className="text-sm text-gray-500">{categoryLabel}</span>
+      </div>
+
+      <div className="text-center mb-8">
+        <div className="text-7xl font-bold text-gray-900 mb-2">{score}/{totalAttempts}</div>
+        <div className="flex justify-center gap-8 text-gray-600">
+          <span>{accuracy}% accuracy</span>
+          <span>Best streak {bestStreak}</span>
+        </div>
+      </div>
+
+      {missed.length > 0 && (
+        <div className="flex-1 min-h-0">
+          <p className="text-sm text-gray-500 mb-3">Fooled by</p>
+          <div className="grid grid-cols-2 gap-3">
+            {missed.map(({ guess, images }) => (
+              <div key={guess.answeredAt} className="flex gap-1">
+                {images.map(image => (
+                  <img
+                    key={image.id}
+                    src={image.variants.jpeg[0]} // The narrowest; thumbnails are tiny, and the card is rendered to a PNG
+                    alt=""
+                    className={`${images.length > 2 ? 'w-8 h-8' : 'w-16 h-16'} object-cover rounded ${image.id === guess.chosenImageId ? 'ring-2 ring-red-500' : ''}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-auto text-center text-sm text-gray-500">Can you spot the synthetic memories? www.aikemist.no</div>
+    </div>
+  );
+});
+
+ResultCard.displayName = 'ResultCard';
+
+export default ResultCard;
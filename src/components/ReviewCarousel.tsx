@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { GuessRecord, Image } from '../types';
+import { getImageById } from '../data/images';
+import ImageCard from './ImageCard';
+
+interface ReviewCarouselProps {
+  guesses: GuessRecord[];
+  onClose: () => void;
+}
+
+interface ReviewItem {
+  guess: GuessRecord;
+  number: number; // 1-based position in the round
+  images: Image[];
+}
+
+const ReviewCarousel: React.FC<ReviewCarouselProps> = ({ guesses, onClose }) => {
+  const [onlyMissed, setOnlyMissed] = useState(false);
+  const [index, setIndex] = useState(0);
+
+  const items = useMemo<ReviewItem[]>(() => (
+    guesses
+      .map((guess, i) => ({
+        guess,
+        number: i + 1,
+        // Images retired from the catalog since the round was played are skipped
+        images: guess.imageIds.map(getImageById).filter((image): image is Image => !!image),
+      }))
+      .filter(item => item.images.length > 0 && (!onlyMissed || !item.guess.isCorrect))
+  ), [guesses, onlyMissed]);
+
+  const missedCount = guesses.filter(guess => !guess.isCorrect).length;
+  const item = items[Math.min(index, items.length - 1)];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggleOnlyMissed = () => {
+    setOnlyMissed(prev => !prev);
+    setIndex(0);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9000] bg-white/95 backdrop-blur-sm flex flex-col" role="dialog" aria-modal="true" aria-label="Review your guesses">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <button
+          onClick={toggleOnlyMissed}
+          disabled={missedCount === 0}
+          className={`text-sm hover:text-gray-900 disabled:opacity-50 ${onlyMissed ? 'font-bold text-gray-900 underline decoration-2 underline-offset-2' : 'text-gray-500'}`}
+        >
+          Only missed ({missedCount})
+        </button>
+        <span className="text-sm text-gray-600">
+          {item ? `Guess ${item.number} of ${guesses.length}` : 'Nothing to review'}
+        </span>
+        <button onClick={onClose} className="p-2 rounded hover:bg-gray-100 text-gray-700" aria-label="Close review">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {item && (
+        <div className="flex-1 min-h-0 overflow-y-auto flex flex-col items-center justify-center px-4 py-6">
+          <div className={`grid gap-6 w-full ${item.images.length > 2 ? 'grid-cols-2 md:grid-cols-3 max-w-5xl' : item.images.length > 1 ? 'grid-cols-1 md:grid-cols-2 max-w-5xl' : 'grid-cols-1 max-w-md'}`}>
+            {item.images.map(image => (
+              <ImageCard
+                key={image.id}
+                image={image}
+                selected={item.guess.layout === 'pairs' && image.id === item.guess.chosenImageId}
+                showResult={true}
+                isCorrect={item.guess.isCorrect}
+                onSelect={() => {}}
+                disabled={true}
+              />
+            ))}
+          </div>
+          <p className="text-gray-700 text-base mt-4 text-center">
+            {item.guess.layout === 'pairs'
+              ? (item.guess.guess === 'ai'
+                ? (item.guess.isCorrect ? 'You spotted the AI image. ✅' : 'You picked a real photo. ❌')
+                : (item.guess.isCorrect ? 'You spotted the real photo. ✅' : 'You picked an AI image. ❌'))
+              : `You said ${item.guess.guess === 'ai' ? 'AI' : 'Real'}. ${item.guess.isCorrect ? '✅' : '❌'}`}
+          </p>
+          <p className="text-gray-500 text-sm mt-1">Answered in {(item.guess.responseTimeMs / 1000).toFixed(1)} s</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-center gap-6 px-4 py-4 border-t border-gray-100">
+        <button
+          onClick={() => setIndex(i => Math.max(0, i - 1))}
+          disabled={index === 0}
+          className="rounded-full p-3 border border-gray-300 text-gray-800 hover:bg-gray-50 disabled:opacity-30"
+          aria-label="Previous guess"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="text-sm text-gray-600 w-16 text-center">
+          {items.length > 0 ? `${Math.min(index, items.length - 1) + 1} / ${items.length}` : '0 / 0'}
+        </span>
+        <button
+          onClick={() => setIndex(i => Math.min(items.length - 1, i + 1))}
+          disabled={index >= items.length - 1}
+          className="rounded-full p-3 border border-gray-300 text-gray-800 hover:bg-gray-50 disabled:opacity-30"
+          aria-label="Next guess"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReviewCarousel;
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { loadProfile } from '../storage/profile';
+import { navigate } from '../routing/routes';
+import ReviewCarousel from './ReviewCarousel';
+import Link from './Link';
+
+interface ReviewScreenProps {
+  roundId: string;
+}
+
+/**
+ * A finished round's guesses, opened from a link. Closing goes back to the stats.
+ */
+const ReviewScreen: React.FC<ReviewScreenProps> = ({ roundId }) => {
+  const [round] = useState(() => loadProfile().rounds.find(record => record.id === roundId) ?? null);
+
+  if (round && round.guesses.length > 0) {
+    return <ReviewCarousel guesses={round.guesses} onClose={() => navigate('/stats')} />;
+  }
+
+  return (
+    <section className="max-w-3xl mx-auto py-8 px-2">
+      <Link href="/stats" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-8">
+        <ArrowLeft className="w-4 h-4" />
+        Back to stats
+      </Link>
+      <p className="text-gray-600">
+        {round ? 'This round has no guesses to review.' : 'This round isn\'t in your history on this device.'}
+      </p>
+    </section>
+  );
+};
+
+export default ReviewScreen;
@@ -1,19 +1,22 @@
 import React from 'react';
-import { RefreshCwIcon } from 'lucide-react';
+import { FlagIcon, RefreshCwIcon, SlidersHorizontalIcon } from 'lucide-react';
 
 interface ScoreDisplayProps {
   score: number;
   totalAttempts: number;
+  roundLength: number | null; // null for endless rounds
   onReset: () => void;
+  onFinish?: () => void;
+  onOpenSetup?: () => void;
 }
 
-const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ score, totalAttempts, onReset }) => {
+const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ score, totalAttempts, roundLength, onReset, onFinish, onOpenSetup }) => {
   const percentage = totalAttempts > 0 ? Math.round((score / totalAttempts) * 100) : 0;
   
   return (
     <div className="flex items-center justify-center gap-6 md:gap-8 py-3 px-4">
       <div className="text-center">
-        <div className="text-2xl md:text-3xl font-medium text-gray-900">{score}/10</div>
+        <div className="text-2xl md:text-3xl font-medium text-gray-900">{score}/{roundLength ?? totalAttempts}</div>
         <div className="text-sm md:text-base text-gray-600 font-medium">Correct</div>
       </div>
       
@@ -29,6 +32,27 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ score, totalAttempts, onRes
       >
         <RefreshCwIcon className="h-6 w-6" />
       </button>
+
+      {onFinish && (
+        <button
+          onClick={onFinish}
+          disabled={totalAttempts === 0}
+          className="text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-30"
+          aria-label="End round"
+        >
+          <FlagIcon className="h-6 w-6" />
+        </button>
+      )}
+
+      {onOpenSetup && (
+        <button
+          onClick={onOpenSetup}
+          className="text-gray-500 hover:text-gray-700 transition-colors"
+          aria-label="Game setup"
+        >
+          <SlidersHorizontalIcon className="h-6 w-6" />
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,168 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Check, X } from 'lucide-react';
+import { ChallengeFormat, ChallengeTarget, GameLayout, RulesPresetId } from '../types';
+import { RULES_PRESETS } from '../data/rules';
+import { MAX_CHALLENGE_SIZE, PAIR_FORMAT } from '../data/images';
+
+interface SetupScreenProps {
+  selectedPreset: RulesPresetId;
+  onSelect: (preset: RulesPresetId) => void;
+  layout: GameLayout;
+  onLayoutChange: (layout: GameLayout) => void;
+  challengeFormat: ChallengeFormat;
+  onChallengeFormatChange: (format: ChallengeFormat) => void;
+  confidenceEnabled: boolean;
+  onConfidenceChange: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const LAYOUTS: Array<{ id: GameLayout; label: string }> = [
+  { id: 'pairs', label: 'Pick one of several' },
+  { id: 'single', label: 'One image at a time' },
+];
+
+type RoundType = 'pairs' | ChallengeTarget;
+
+const ROUND_TYPES: Array<{ id: RoundType; label: string }> = [
+  { id: 'pairs', label: 'Pairs' },
+  { id: 'ai', label: 'Odd one out: find the AI' },
+  { id: 'real', label: 'Odd one out: find the real photo' },
+];
+
+const DEFAULT_GRID_SIZE = 4;
+const GRID_SIZES = Array.from({ length: MAX_CHALLENGE_SIZE - 2 }, (_, i) => i + 3);
+
+const SetupScreen: React.FC<SetupScreenProps> = ({
+  selectedPreset,
+  onSelect,
+  layout,
+  onLayoutChange,
+  challengeFormat,
+  onChallengeFormatChange,
+  confidenceEnabled,
+  onConfidenceChange,
+  onClose,
+}) => {
+  const roundType: RoundType = challengeFormat.size === 2 ? 'pairs' : challengeFormat.target;
+
+  const handleRoundTypeChange = (type: RoundType) => {
+    if (type === 'pairs') {
+      onChallengeFormatChange(PAIR_FORMAT);
+    } else {
+      const size = challengeFormat.size > 2 ? challengeFormat.size : DEFAULT_GRID_SIZE;
+      onChallengeFormatChange({ size, target: type });
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9000] bg-white/95 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Game setup"
+    >
+      <div className="w-full max-w-md max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-medium text-gray-900">Game setup</h2>
+          <button onClick={onClose} className="p-2 rounded hover:bg-gray-100 text-gray-700" aria-label="Close setup">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">Changing the format starts a new round. It is remembered on this device.</p>
+        <div className="space-y-3">
+          {Object.values(RULES_PRESETS).map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onSelect(preset.id)}
+              className={`w-full text-left rounded-lg border p-4 flex items-center justify-between hover:bg-gray-50 ${
+                preset.id === selectedPreset ? 'border-gray-900' : 'border-gray-200'
+              }`}
+            >
+              <div>
+                <div className="font-medium text-gray-900">{preset.label}</div>
+                <div className="text-sm text-gray-600">{preset.description}</div>
+              </div>
+              {preset.id === selectedPreset && <Check className="w-5 h-5 text-gray-900 shrink-0" />}
+            </button>
+          ))}
+        </div>
+
+        <h3 className="mt-6 mb-2 font-medium text-gray-900">Layout</h3>
+        <div className="flex flex-wrap gap-2">
+          {LAYOUTS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => onLayoutChange(option.id)}
+              className={`rounded-full px-3 py-1.5 text-sm border ${
+                layout === option.id ? 'border-gray-900 text-gray-900 font-medium' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {layout === 'pairs' && (
+          <>
+            <h3 className="mt-6 mb-2 font-medium text-gray-900">Round type</h3>
+            <div className="flex flex-wrap gap-2">
+              {ROUND_TYPES.map(type => (
+                <button
+                  key={type.id}
+                  onClick={() => handleRoundTypeChange(type.id)}
+                  className={`rounded-full px-3 py-1.5 text-sm border ${
+                    roundType === type.id ? 'border-gray-900 text-gray-900 font-medium' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+            {roundType !== 'pairs' && (
+              <div className="mt-3 flex items-center gap-3 text-sm text-gray-700">
+                <span>Images per grid</span>
+                {GRID_SIZES.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => onChallengeFormatChange({ ...challengeFormat, size })}
+                    className={`h-8 w-8 rounded-full border ${
+                      challengeFormat.size === size ? 'border-gray-900 font-bold text-gray-900' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {size}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <label className="mt-6 flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={confidenceEnabled}
+            onChange={(e) => onConfidenceChange(e.target.checked)}
+            className="mt-1 h-4 w-4 accent-gray-900"
+          />
+          <span>
+            <span className="block font-medium text-gray-900">Rate your confidence</span>
+            <span className="block text-sm text-gray-600">Say how sure you are with every guess and see how well calibrated you are. Not used in Blitz.</span>
+          </span>
+        </label>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default SetupScreen;
@@ -0,0 +1,213 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowLeft, Target, Flame, Hash, Download, Upload, Eye } from 'lucide-react';
+import { getProfileSaveError, loadProfile } from '../storage/profile';
+import { getAccuracyTrend, getRoundGroup, StatsGroup, summarizeRounds, TrendPoint } from '../data/stats';
+import { exportRatings, importRatings } from '../data/ratings';
+import { downloadFile } from '../utils/shareImage';
+import { routePath } from '../routing/routes';
+import Link from './Link';
+
+const groupLabels: Record<StatsGroup, string> = {
+  all: 'All',
+  people: 'People',
+  nature: 'Nature',
+  city: 'City',
+  interior: 'Interior',
+  daily: 'Daily',
+  blitz: 'Blitz',
+};
+
+const TREND_WINDOWS = [10, 25, 50];
+const RECENT_ROUNDS = 5;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 24;
+
+const TrendChart: React.FC<{ points: TrendPoint[] }> = ({ points }) => {
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-500 text-center py-12">Play a few more rounds to see your trend.</p>;
+  }
+
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const toX = (index: number) => CHART_PADDING + (index / (points.length - 1)) * innerWidth;
+  const toY = (accuracy: number) => CHART_PADDING + (1 - accuracy / 100) * innerHeight;
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${toX(index)},${toY(point.accuracy)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Accuracy per round">
+      {[0, 50, 100].map(level => (
+        <g key={level}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={toY(level)} y2={toY(level)} className="stroke-gray-200" strokeDasharray="4 4" />
+          <text x={CHART_PADDING - 6} y={toY(level) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">{level}%</text>
+        </g>
+      ))}
+      <path d={path} fill="none" className="stroke-gray-900" strokeWidth={2} strokeLinejoin="round" />
+      {points.map((point, index) => (
+        <circle key={point.roundId} cx={toX(index)} cy={toY(point.accuracy)} r={3} className="fill-gray-900">
+          <title>{`${new Date(point.finishedAt).toLocaleDateString()}: ${point.accuracy}%`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const StatsScreen: React.FC = () => {
+  // The profile only changes when a round ends, so reading it once per visit is enough
+  const [profile, setProfile] = useState(() => loadProfile());
+  // Read on every render: importing ratings saves the profile too
+  const saveError = getProfileSaveError();
+  const [trendWindow, setTrendWindow] = useState(TREND_WINDOWS[0]);
+  const [ratingsMessage, setRatingsMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const { overall, byGroup } = useMemo(() => summarizeRounds(profile.rounds), [profile]);
+  const trend = useMemo(() => getAccuracyTrend(profile.rounds, trendWindow), [profile, trendWindow]);
+  const recentRounds = useMemo(
+    () => profile.rounds.filter(round => round.guesses.length > 0).slice(-RECENT_ROUNDS).reverse(),
+    [profile],
+  );
+
+  const handleExportRatings = () => {
+    const json = JSON.stringify(exportRatings(), null, 2);
+    downloadFile(new File([json], 'realorai-ratings.json', { type: 'application/json' }));
+  };
+
+  const handleImportRatings = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      importRatings(JSON.parse(await file.text()));
+      setProfile(loadProfile());
+      setRatingsMessage('Ratings imported.');
+    } catch (error) {
+      setRatingsMessage(`Could not import ratings: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <section className="max-w-3xl mx-auto py-8 px-2">
+      <div className="flex items-center justify-between mb-8">
+        <Link href="/" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" />
+          Back to game
+        </Link>
+        <img src="/realorai.svg" alt="Real or AI Logo" className="h-6 w-auto" />
+      </div>
+
+      <h1 className="text-2xl font-medium text-gray-900 mb-6">Your stats</h1>
+
+      {saveError && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-lg px-4 py-3 mb-6">
+          {saveError} Rounds and ratings from now on won't be kept on this device.
+        </p>
+      )}
+
+      {profile.rounds.length === 0 ? (
+        <p className="text-gray-600">No finished rounds yet. Play a round and your results will show up here.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-10">
+            <div className="rounded-lg border border-gray-200 p-4 text-center">
+              <Hash className="w-4 h-4 text-gray-500 mx-auto mb-1" />
+              <div className="text-2xl md:text-3xl font-medium text-gray-900">{overall.rounds}</div>
+              <div className="text-sm text-gray-600">Rounds</div>
+            </div>
+            <div className="rounded-lg border border-gray-200 p-4 text-center">
+              <Target className="w-4 h-4 text-gray-500 mx-auto mb-1" />
+              <div className="text-2xl md:text-3xl font-medium text-gray-900">{overall.accuracy}%</div>
+              <div className="text-sm text-gray-600">Accuracy</div>
+            </div>
+            <div className="rounded-lg border border-gray-200 p-4 text-center">
+              <Flame className="w-4 h-4 text-gray-500 mx-auto mb-1" />
+              <div className="text-2xl md:text-3xl font-medium text-gray-900">{overall.bestStreak}</div>
+              <div className="text-sm text-gray-600">Best streak</div>
+            </div>
+          </div>
+
+          <h2 className="text-lg font-medium text-gray-900 mb-3">By category</h2>
+          <div className="space-y-3 mb-10">
+            {byGroup.map(stats => (
+              <div key={stats.group} className="flex items-center gap-4 text-sm">
+                <span className="w-20 text-gray-700">{groupLabels[stats.group]}</span>
+                <div className="flex-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+                  <div className="h-full bg-gray-900" style={{ width: `${stats.accuracy}%` }} />
+                </div>
+                <span className="w-12 text-right font-medium text-gray-900">{stats.accuracy}%</span>
+                <span className="w-24 text-right text-gray-500">{stats.rounds} {stats.rounds === 1 ? 'round' : 'rounds'}</span>
+                <span className="w-24 text-right text-gray-500">best streak {stats.bestStreak}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-medium text-gray-900">Trend</h2>
+            <div className="flex gap-4">
+              {TREND_WINDOWS.map(count => (
+                <button
+                  key={count}
+                  onClick={() => setTrendWindow(count)}
+                  className={`text-sm hover:text-gray-900 ${
+                    trendWindow === count ? 'font-bold text-gray-900 underline decoration-2 underline-offset-2' : 'text-gray-500'
+                  }`}
+                >
+                  Last {count}
+                </button>
+              ))}
+            </div>
+          </div>
+          <TrendChart points={trend} />
+
+          {recentRounds.length > 0 && (
+            <>
+              <h2 className="text-lg font-medium text-gray-900 mt-10 mb-3">Recent rounds</h2>
+              <ul className="divide-y divide-gray-100 text-sm">
+                {recentRounds.map(round => (
+                  <li key={round.id} className="flex items-center gap-4 py-2">
+                    <span className="w-24 text-gray-500">{new Date(round.finishedAt).toLocaleDateString()}</span>
+                    <span className="w-20 text-gray-700">{groupLabels[getRoundGroup(round)]}</span>
+                    <span className="flex-1 font-medium text-gray-900">{round.score}/{round.totalAttempts}</span>
+                    <Link
+                      href={routePath({ name: 'review', roundId: round.id })}
+                      className="inline-flex items-center gap-1 text-gray-500 hover:text-gray-900"
+                    >
+                      <Eye className="w-4 h-4" />
+                      Review
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+
+      <div className="mt-10 pt-6 border-t border-gray-100">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-medium text-gray-900">Skill rating</h2>
+          <div className="flex gap-4">
+            <button onClick={handleExportRatings} className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900">
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+            <button onClick={() => importInputRef.current?.click()} className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900">
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportRatings} />
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          {profile.ratings.player.games > 0
+            ? `${Math.round(profile.ratings.player.rating)} after ${profile.ratings.player.games} rated guesses. Classic rounds are picked to match it.`
+            : 'Your rating appears after your first guess. Classic rounds are picked to match it.'}
+        </p>
+        {ratingsMessage && <p className="text-sm text-gray-500 mt-2">{ratingsMessage}</p>}
+      </div>
+    </section>
+  );
+};
+
+export default StatsScreen;
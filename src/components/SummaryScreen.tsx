@@ -1,6 +1,23 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { FilterCategory } from '../types';
-import { Share2, RefreshCw, Target, Clipboard } from 'lucide-react';
+import { FilterCategory, GuessRecord } from '../types';
+import { Share2, RefreshCw, Target, Clipboard, Eye, ImageDown, Swords } from 'lucide-react';
+import { formatResultGrid } from '../data/daily';
+import { BlitzSummary } from '../data/blitz';
+import { summarizeCalibration } from '../data/calibration';
+import { buildSeedUrl } from '../engine/roundSeed';
+import { FriendChallenge } from '../engine/challengeCode';
+import { routePath } from '../routing/routes';
+import ChallengeComparison from './ChallengeComparison';
+import LeaderboardSubmit from './LeaderboardSubmit';
+import { LeaderboardSubmission } from '../leaderboard/verify';
+import CalibrationChart from './CalibrationChart';
+import { renderNodeToPng, shareOrDownloadFile } from '../utils/shareImage';
+import ReviewCarousel from './ReviewCarousel';
+import ResultCard from './ResultCard';
+import { createLogger } from '../utils/logger';
+import { track } from '../analytics/track';
+
+const log = createLogger('SummaryScreen');
 
 interface SummaryScreenProps {
   score: number;
@@ -10,6 +27,14 @@ interface SummaryScreenProps {
   onCategoryChange: (category: FilterCategory) => void;
   isMobile?: boolean;
   streak?: number;
+  results?: boolean[]; // Per-guess outcomes, used for the daily result grid
+  guesses?: GuessRecord[]; // Full guess log, used by the review carousel
+  dailyKey?: string; // Set when summarising a daily challenge
+  blitz?: BlitzSummary; // Set when summarising a blitz round
+  seedCode?: string; // Replays this round's images, for bug reports
+  challengeCode?: string; // Set when the round can be sent to a friend
+  friendChallenge?: FriendChallenge; // Set when this round answered a friend's challenge
+  leaderboardSubmission?: Omit<LeaderboardSubmission, 'nickname'>; // Set when the round can go on the leaderboard
   showShareOnly?: boolean; // For desktop right panel
   showButtonsOnly?: boolean; // For mobile buttons only
   isFlipped?: boolean; // For mobile share flip state
@@ -30,6 +55,14 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
   onCategoryChange,
   isMobile = false,
   streak,
+  results = [],
+  guesses = [],
+  dailyKey,
+  blitz,
+  seedCode,
+  challengeCode,
+  friendChallenge,
+  leaderboardSubmission,
   showShareOnly = false,
   showButtonsOnly = false,
   isFlipped = false,
@@ -37,7 +70,11 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
   const [feedback, setFeedback] = useState<DynamicFeedback | null>(null);
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
+  const [challengeCopied, setChallengeCopied] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [cardStatus, setCardStatus] = useState<'idle' | 'rendering' | 'error'>('idle');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
 
   const accuracy = totalAttempts > 0 ? Math.round((score / totalAttempts) * 100) : 0;
 
@@ -112,8 +149,29 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
     }
   };
 
+  const resultGrid = useMemo(() => formatResultGrid(results), [results]);
+  // Only rounds played with confidence rating on have anything to chart
+  const calibration = useMemo(() => summarizeCalibration(guesses), [guesses]);
+
   const defaultShareText = useMemo(() => (
-    [
+    dailyKey ? [
+      `Real or AI? Daily ${dailyKey}`,
+      `${score}/${totalAttempts}`,
+      '',
+      resultGrid,
+      '',
+      'Test your skills at:',
+      'www.aikemist.no',
+    ].join('\n') : blitz ? [
+      'Real or AI? Blitz',
+      '',
+      `${blitz.points} points in 60 seconds`,
+      `${score} correct of ${totalAttempts}`,
+      `${blitz.answersPerMinute} answers per minute`,
+      '',
+      'Test your skills at:',
+      'www.aikemist.no',
+    ].join('\n') : [
       'Real or AI?',
       'Can you spot the synthetic memories?',
       '',
@@ -124,10 +182,105 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
       'Test your skills at:',
       'www.aikemist.no',
     ].join('\n')
-  ), [score, totalAttempts, streak]);
+  ), [score, totalAttempts, streak, dailyKey, blitz, resultGrid]);
+
+  const categoryLabel = dailyKey
+    ? `Daily ${dailyKey}`
+    : blitz ? 'Blitz'
+    : category === 'all' ? 'All categories' : category.charAt(0).toUpperCase() + category.slice(1);
+
+  // The result card is only mounted while rendering; once it is in the DOM, snapshot and share it
+  useEffect(() => {
+    if (cardStatus !== 'rendering' || !cardRef.current) return;
+    let cancelled = false;
+    renderNodeToPng(cardRef.current, 'real-or-ai-result.png')
+      .then(file => shareOrDownloadFile(file, textareaRef.current?.value ?? defaultShareText))
+      .then(() => { if (!cancelled) setCardStatus('idle'); })
+      .catch(() => { if (!cancelled) setCardStatus('error'); });
+    return () => { cancelled = true; };
+  }, [cardStatus, defaultShareText]);
+
+  const shareImageButton = (
+    <>
+      <button
+        onClick={() => {
+          setCardStatus('rendering');
+          track('share_clicked', { method: 'image' });
+        }}
+        disabled={cardStatus === 'rendering'}
+        className="mt-3 w-full rounded-full px-4 py-2 text-sm border border-gray-300 text-gray-800 hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        <ImageDown className="w-4 h-4" />
+        {cardStatus === 'rendering' ? 'Creating image…' : 'Download / Share image'}
+      </button>
+      {cardStatus === 'error' && (
+        <p className="mt-2 text-xs text-red-600 text-center">Couldn't create the image. Try again.</p>
+      )}
+      {cardStatus === 'rendering' && (
+        <div className="fixed top-0 -left-[10000px]" aria-hidden="true">
+          <ResultCard
+            ref={cardRef}
+            score={score}
+            totalAttempts={totalAttempts}
+            bestStreak={streak || 0}
+            categoryLabel={categoryLabel}
+            guesses={guesses}
+          />
+        </div>
+      )}
+    </>
+  );
+
+  const blitzStats = blitz && (
+    <div className="flex justify-center gap-6 text-sm text-gray-600 mb-4">
+      <span><strong className="text-gray-900">{blitz.points}</strong> points</span>
+      <span><strong className="text-gray-900">{blitz.answersPerMinute}</strong> answers/min</span>
+      <span><strong className="text-gray-900">{(blitz.averageDecisionMs / 1000).toFixed(1)} s</strong> avg decision</span>
+    </div>
+  );
+
+  // Small print for bug reports: the link deals exactly the same images
+  const seedLine = seedCode && (
+    <p className="text-xs text-gray-400 text-center mt-4">
+      Round seed:{' '}
+      <a href={buildSeedUrl(seedCode, window.location.href)} className="font-mono underline hover:text-gray-600">
+        {seedCode}
+      </a>
+    </p>
+  );
+
+  const comparison = friendChallenge && (
+    <div className="mb-6 max-w-sm mx-auto w-full">
+      <ChallengeComparison challenge={friendChallenge} results={results} />
+    </div>
+  );
+
+  const handleCopyChallenge = async () => {
+    if (!challengeCode) return;
+    track('share_clicked', { method: 'challenge' });
+    const link = new URL(routePath({ name: 'challenge', code: challengeCode }), window.location.origin).toString();
+    try {
+      await navigator.clipboard.writeText(link);
+      setChallengeCopied(true);
+      setTimeout(() => setChallengeCopied(false), 2000);
+    } catch {
+      return;
+    }
+  };
+
+  const challengeButton = challengeCode && (
+    <button
+      onClick={handleCopyChallenge}
+      className="mt-3 w-full rounded-full px-4 py-2 text-sm border border-gray-300 text-gray-800 hover:bg-gray-50 flex items-center justify-center gap-2"
+    >
+      <Swords className="w-4 h-4" />
+      {challengeCopied ? 'Challenge link copied' : 'Challenge a friend'}
+    </button>
+  );
 
   const handleCopyShare = async () => {
     const text = textareaRef.current?.value ?? defaultShareText;
+    track('share_clicked', { method: 'copy_text' });
     try {
       await navigator.clipboard.writeText(text);
       setCopied(true);
@@ -176,6 +329,9 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
             <span className="absolute right-2 top-10 text-xs bg-gray-900 text-white px-2 py-1 rounded shadow">Copied</span>
           )}
         </div>
+        {shareImageButton}
+        {challengeButton}
+        {leaderboardSubmission && <LeaderboardSubmit submission={leaderboardSubmission} />}
       </div>
     );
   }
@@ -189,7 +345,7 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
           className="rounded-full px-6 py-3 text-base bg-gray-900 text-white hover:bg-black flex items-center gap-2"
         >
           <RefreshCw className="w-4 h-4" />
-          Play again
+          {dailyKey ? 'Play classic' : 'Play again'}
         </button>
       </div>
     );
@@ -197,7 +353,7 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
 
   // Mobile layout with flip effect
   if (isMobile) {
-    console.log('📱 SummaryScreen mobile render, isFlipped:', isFlipped);
+    log.debug('Mobile render, isFlipped:', isFlipped);
     
     if (isFlipped) {
       // Share content - show the text field
@@ -228,6 +384,9 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
                 <span className="absolute right-2 top-10 text-xs bg-gray-900 text-white px-2 py-1 rounded shadow">Copied</span>
               )}
             </div>
+            {shareImageButton}
+            {challengeButton}
+            {leaderboardSubmission && <LeaderboardSubmit submission={leaderboardSubmission} />}
           </div>
         </div>
       );
@@ -243,9 +402,36 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
                 <span>{accuracy}% accuracy</span>
               </div>
             </div>
-            <p className="text-gray-700 text-base mb-3">{feedback.message}</p>
-            <p className="text-gray-500 text-sm mb-6">💡 {feedback.tip}</p>
+            {blitzStats}
+            {comparison}
+            {dailyKey && (
+              <div className="mb-4">
+                <div className="text-2xl leading-tight whitespace-pre" aria-label="Daily results">{resultGrid}</div>
+                <p className="text-gray-500 text-xs mt-2">Come back tomorrow for a new daily challenge.</p>
+              </div>
+            )}
+            {calibration ? (
+              <div className="mb-4">
+                <CalibrationChart calibration={calibration} />
+              </div>
+            ) : (
+              <>
+                <p className="text-gray-700 text-base mb-3">{feedback.message}</p>
+                <p className="text-gray-500 text-sm mb-6">💡 {feedback.tip}</p>
+              </>
+            )}
+            {guesses.length > 0 && (
+              <button
+                onClick={() => setShowReview(true)}
+                className="mx-auto text-sm text-gray-700 underline hover:text-gray-900 inline-flex items-center gap-1"
+              >
+                <Eye className="w-4 h-4" />
+                Review your guesses
+              </button>
+            )}
+            {seedLine}
           </div>
+          {showReview && <ReviewCarousel guesses={guesses} onClose={() => setShowReview(false)} />}
         </div>
       );
     }
@@ -261,19 +447,46 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
           <span>{accuracy}% accuracy</span>
         </div>
       </div>
+
+      {blitzStats}
+      {comparison}
+      {dailyKey && (
+        <div className="text-center mb-6">
+          <div className="text-3xl leading-tight whitespace-pre" aria-label="Daily results">{resultGrid}</div>
+          <p className="text-gray-500 text-sm mt-2">Come back tomorrow for a new daily challenge.</p>
+        </div>
+      )}
       
-      <p className="text-gray-700 text-base mb-3 text-center">{feedback.message}</p>
-      <p className="text-gray-500 text-sm mb-6 text-center">💡 {feedback.tip}</p>
+      {calibration ? (
+        <div className="mb-6 max-w-sm mx-auto w-full">
+          <CalibrationChart calibration={calibration} />
+        </div>
+      ) : (
+        <>
+          <p className="text-gray-700 text-base mb-3 text-center">{feedback.message}</p>
+          <p className="text-gray-500 text-sm mb-6 text-center">💡 {feedback.tip}</p>
+        </>
+      )}
 
-      <div className="flex justify-center mb-6">
+      <div className="flex justify-center gap-3 mb-6">
         <button
           onClick={onPlayAgain}
           className="rounded-full px-6 py-3 text-base bg-gray-900 text-white hover:bg-black flex items-center gap-2"
         >
           <RefreshCw className="w-4 h-4" />
-          Play again
+          {dailyKey ? 'Play classic' : 'Play again'}
         </button>
+        {guesses.length > 0 && (
+          <button
+            onClick={() => setShowReview(true)}
+            className="rounded-full px-6 py-3 text-base border border-gray-300 text-gray-800 hover:bg-gray-50 flex items-center gap-2"
+          >
+            <Eye className="w-4 h-4" />
+            Review
+          </button>
+        )}
       </div>
+      {showReview && <ReviewCarousel guesses={guesses} onClose={() => setShowReview(false)} />}
 
       <div className="flex flex-col items-center">
         <p className="text-gray-600 text-sm mb-3">Try another category</p>
@@ -289,6 +502,7 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({
           ))}
         </div>
       </div>
+      {seedLine}
     </div>
   );
 };
@@ -0,0 +1,121 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { Image, ImageMetadata, TellKind } from '../types';
+import { isAIImage } from '../data/images';
+
+interface WhyPanelProps {
+  image: Image;
+  metadata: ImageMetadata;
+  onClose: () => void;
+}
+
+const TELL_LABELS: Record<TellKind, string> = {
+  hands: 'Hands',
+  text: 'Text',
+  lighting: 'Lighting',
+  reflections: 'Reflections',
+  anatomy: 'Anatomy',
+  texture: 'Texture',
+  background: 'Background',
+  other: 'Other',
+};
+
+const formatCredit = (metadata: ImageMetadata): string | null => {
+  const parts: string[] = [];
+  if (metadata.generator) {
+    parts.push(`Made with ${metadata.generator.model}${metadata.generator.version ? ` ${metadata.generator.version}` : ''}`);
+  }
+  if (metadata.photographer) parts.push(`Photo by ${metadata.photographer}`);
+  if (metadata.source) parts.push(`Source: ${metadata.source.credit}`);
+  if (metadata.license) parts.push(metadata.license);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+/**
+ * Explains an answer: the full image with its tells outlined and numbered, and what each one is.
+ * Only open it after the guess; the metadata gives the answer away.
+ */
+const WhyPanel: React.FC<WhyPanelProps> = ({ image, metadata, onClose }) => {
+  const tells = metadata.tells ?? [];
+  const credit = formatCredit(metadata);
+
+  useEffect(() => {
+    // Capture phase so Escape closes this panel and not the review carousel underneath
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      event.stopPropagation();
+      onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[10000] bg-black/90 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Why this answer"
+    >
+      <div
+        className="bg-white rounded-lg max-w-4xl w-full max-h-[95vh] overflow-y-auto p-4 md:p-6 flex flex-col md:flex-row gap-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="relative self-center shrink-0">
+          <img src={image.src} alt="Annotated image" className="block max-h-[60vh] max-w-full md:max-w-[28rem] w-auto rounded" />
+          {tells.map((tell, index) => tell.region && (
+            <div
+              key={index}
+              className="absolute border-2 border-red-500 rounded-sm shadow-[0_0_0_1px_rgba(255,255,255,0.8)]"
+              style={{
+                left: `${tell.region.x * 100}%`,
+                top: `${tell.region.y * 100}%`,
+                width: `${tell.region.width * 100}%`,
+                height: `${tell.region.height * 100}%`,
+              }}
+            >
+              <span className="absolute -top-3 -left-3 h-6 w-6 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+                {index + 1}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-900">
+              {isAIImage(image) ? 'Why it’s AI' : 'Why it’s real'}
+            </h2>
+            <button onClick={onClose} className="p-1 rounded hover:bg-gray-100 text-gray-700" aria-label="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <ol className="space-y-3">
+            {tells.map((tell, index) => (
+              <li key={index} className="flex gap-3">
+                <span className="shrink-0 h-6 w-6 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <div>
+                  <div className="text-sm font-semibold text-gray-900">{TELL_LABELS[tell.kind]}</div>
+                  <p className="text-sm text-gray-700">{tell.description}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          {metadata.prompt && (
+            <p className="text-sm text-gray-500 mt-4"><span className="font-medium">Prompt:</span> {metadata.prompt}</p>
+          )}
+          {credit && <p className="text-xs text-gray-500 mt-4">{credit}</p>}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default WhyPanel;
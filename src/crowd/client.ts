@@ -0,0 +1,70 @@
+import { GuessRecord } from '../types';
+import { getImageById, isAIImage } from '../data/images';
+import { createCrowdService, createMemoryCrowdStore } from './service';
+import { CrowdStats, GuessOutcome, outcomesFromGuess } from './stats';
+import { createLogger } from '../utils/logger';
+
+// How guess outcomes reach the crowd statistics. With VITE_CROWD_URL set they go to the
+// collection endpoint on the Node server (pnpm server); without it, they stay in memory for this page.
+
+export interface CrowdTransport {
+  send(outcomes: GuessOutcome[]): Promise<void>;
+  getStats(imageIds: string[]): Promise<CrowdStats>;
+}
+
+export const CROWD_API_PATH = '/api/crowd';
+
+const log = createLogger('crowd');
+
+export const createHttpCrowdTransport = (baseUrl: string): CrowdTransport => {
+  const apiUrl = `${baseUrl.replace(/\/$/, '')}${CROWD_API_PATH}`;
+  return {
+    send: async outcomes => {
+      const response = await fetch(`${apiUrl}/outcomes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(outcomes),
+        keepalive: true, // The last guess of a round may be sent as the page closes
+      });
+      if (!response.ok) throw new Error(`Crowd report failed: ${response.status}`);
+    },
+    getStats: async imageIds => {
+      const response = await fetch(`${apiUrl}?${new URLSearchParams({ ids: imageIds.join(',') })}`);
+      if (!response.ok) throw new Error(`Crowd stats request failed: ${response.status}`);
+      return response.json() as Promise<CrowdStats>;
+    },
+  };
+};
+
+export const createMemoryCrowdTransport = (): CrowdTransport => {
+  const service = createCrowdService(createMemoryCrowdStore());
+  return {
+    send: async outcomes => {
+      const problems = await service.record(outcomes);
+      if (problems.length > 0) throw new Error(`Crowd report rejected: ${problems.join('; ')}`);
+    },
+    getStats: imageIds => service.getStats(imageIds),
+  };
+};
+
+let transport: CrowdTransport | null = null;
+
+export const getCrowdTransport = (): CrowdTransport => {
+  if (!transport) {
+    const url = import.meta.env.VITE_CROWD_URL;
+    transport = url ? createHttpCrowdTransport(url) : createMemoryCrowdTransport();
+  }
+  return transport;
+};
+
+/**
+ * Adds a guess to the crowd statistics in the background. Failures only cost a data point.
+ */
+export const reportGuess = (guess: GuessRecord): void => {
+  getCrowdTransport()
+    .send(outcomesFromGuess(guess, imageId => {
+      const image = getImageById(imageId);
+      return !!image && isAIImage(image);
+    }))
+    .catch(error => log.warn('Could not report a guess:', error));
+};
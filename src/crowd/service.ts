@@ -0,0 +1,65 @@
+import { getImageById } from '../data/images';
+import { addOutcomes, CrowdStats, GuessOutcome } from './stats';
+
+// Collects guess outcomes and answers per-image questions, independent of where tallies are
+// kept. The Node server runs it over a JSON file; the in-memory transport runs it in the browser.
+
+/**
+ * Where tallies are kept. Implementations only store; checking outcomes happens in the service.
+ */
+export interface CrowdStore {
+  add(outcomes: GuessOutcome[]): Promise<void>;
+  load(): Promise<CrowdStats>;
+}
+
+export interface CrowdService {
+  record(outcomes: GuessOutcome[]): Promise<string[]>; // Problems found; none means the outcomes were counted
+  getStats(imageIds: string[]): Promise<CrowdStats>;
+}
+
+// A guess shows at most six images; anything bigger isn't from the game
+export const MAX_OUTCOMES_PER_REPORT = 6;
+export const MAX_STATS_QUERY = 50;
+
+/**
+ * Checks a batch of outcomes. Returns every problem found; none means it can be counted.
+ */
+export const validateOutcomes = (outcomes: unknown): string[] => {
+  if (!Array.isArray(outcomes) || outcomes.length === 0 || outcomes.length > MAX_OUTCOMES_PER_REPORT) {
+    return [`a report has 1-${MAX_OUTCOMES_PER_REPORT} outcomes`];
+  }
+  const problems: string[] = [];
+  outcomes.forEach((outcome: Partial<GuessOutcome> | null, i) => {
+    if (typeof outcome?.imageId !== 'string' || !getImageById(outcome.imageId)) {
+      problems.push(`outcome ${i + 1}: unknown image`);
+    }
+    if (typeof outcome?.correct !== 'boolean') problems.push(`outcome ${i + 1}: correct must be true or false`);
+  });
+  return problems;
+};
+
+export const createMemoryCrowdStore = (): CrowdStore => {
+  let stats: CrowdStats = {};
+  return {
+    add: async outcomes => {
+      stats = addOutcomes(stats, outcomes);
+    },
+    load: async () => stats,
+  };
+};
+
+export const createCrowdService = (store: CrowdStore): CrowdService => ({
+  record: async outcomes => {
+    const problems = validateOutcomes(outcomes);
+    if (problems.length > 0) return problems;
+    // Only what the stats need, whatever else the report carried
+    await store.add(outcomes.map(({ imageId, correct }) => ({ imageId, correct })));
+    return [];
+  },
+  getStats: async imageIds => {
+    const stats = await store.load();
+    return Object.fromEntries(
+      imageIds.slice(0, MAX_STATS_QUERY).filter(id => stats[id]).map(id => [id, stats[id]]),
+    );
+  },
+});
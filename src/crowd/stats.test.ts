@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { addOutcomes, CrowdStats, getFooledShare, MIN_CROWD_SAMPLE, outcomesFromGuess, rankByDeception, ReportImage } from './stats';
+import { createCrowdService, createMemoryCrowdStore } from './service';
+import { GuessRecord } from '../types';
+import { loadFixtureCatalog } from '../test/fixtures';
+
+const guess = (imageIds: string[], isCorrect: boolean): GuessRecord => ({
+  imageIds,
+  chosenImageId: imageIds[0],
+  guess: 'ai',
+  isCorrect,
+  responseTimeMs: 1200,
+  layout: 'pairs',
+  answeredAt: 1_000,
+});
+
+// Images named ai* are AI, the rest real
+const isAI = (imageId: string) => imageId.startsWith('ai');
+
+describe('crowd stats', () => {
+  it('count a wrong pick against the chosen image and the AI image the player missed', () => {
+    let stats: CrowdStats = {};
+    stats = addOutcomes(stats, outcomesFromGuess(guess(['real1', 'ai1'], false), isAI));
+    stats = addOutcomes(stats, outcomesFromGuess(guess(['real2', 'ai2', 'real3'], false), isAI));
+    stats = addOutcomes(stats, outcomesFromGuess(guess(['ai1', 'real1'], true), isAI));
+
+    expect(stats).toEqual({
+      real1: { shown: 2, wrong: 1 },
+      ai1: { shown: 2, wrong: 1 },
+      real2: { shown: 1, wrong: 1 },
+      ai2: { shown: 1, wrong: 1 },
+      real3: { shown: 1, wrong: 0 },
+    });
+  });
+
+  it('count a wrong call on a single image against that image', () => {
+    const single: GuessRecord = { ...guess(['ai1'], false), guess: 'real', layout: 'single' };
+    expect(outcomesFromGuess(single, isAI)).toEqual([{ imageId: 'ai1', correct: false }]);
+  });
+
+  it('give no share until enough players have seen an image', () => {
+    expect(getFooledShare(undefined)).toBeNull();
+    expect(getFooledShare({ shown: MIN_CROWD_SAMPLE - 1, wrong: 10 })).toBeNull();
+    expect(getFooledShare({ shown: 50, wrong: 31 })).toBe(0.62);
+  });
+
+  it('rank images per category by how often they fool players', () => {
+    const images: ReportImage[] = [
+      { id: 'p1', category: 'people', file: 'people/ai/1.jpg' },
+      { id: 'p2', category: 'people', file: 'people/ai/2.jpg' },
+      { id: 'p3', category: 'people', file: 'people/ai/3.jpg' },
+      { id: 'p4', category: 'people', file: 'people/ai/4.jpg' },
+      { id: 'n1', category: 'nature', file: 'nature/ai/1.jpg' },
+    ];
+    const stats: CrowdStats = {
+      p1: { shown: 40, wrong: 10 },
+      p2: { shown: 40, wrong: 30 },
+      p3: { shown: 80, wrong: 20 },
+      p4: { shown: 5, wrong: 5 },
+    };
+
+    const [nature, people] = rankByDeception(images, stats, 2);
+
+    expect(nature).toMatchObject({ category: 'nature', mostDeceptive: [], rated: 0, unrated: 1 });
+    expect(people.mostDeceptive.map(image => image.id)).toEqual(['p2', 'p3']);
+    expect(people.leastDeceptive.map(image => image.id)).toEqual(['p3', 'p1']);
+    expect(people).toMatchObject({ rated: 3, unrated: 1 });
+  });
+
+  it('only count outcomes for catalog images', async () => {
+    const { entries } = await loadFixtureCatalog(['people'], 2);
+    const service = createCrowdService(createMemoryCrowdStore());
+    const [first, second] = entries.map(entry => entry.id);
+
+    expect(await service.record([{ imageId: first, correct: false }, { imageId: second, correct: true }])).toEqual([]);
+    expect(await service.record([{ imageId: 'nope', correct: false }])).toEqual(['outcome 1: unknown image']);
+    expect(await service.record([])).toEqual(['a report has 1-6 outcomes']);
+    expect(await service.getStats([first, 'nope'])).toEqual({ [first]: { shown: 1, wrong: 1 } });
+  });
+});
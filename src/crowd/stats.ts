@@ -0,0 +1,98 @@
+import { Category, GuessRecord } from '../types';
+
+// Crowd statistics: how often each image is guessed wrong, across all players. Outcomes carry
+// an image id and whether the guess was right, nothing about who made it or when.
+
+export interface GuessOutcome {
+  imageId: string;
+  correct: boolean;
+}
+
+export interface ImageTally {
+  shown: number; // Guesses the image was part of
+  wrong: number; // Of those, guesses that were wrong
+}
+
+export type CrowdStats = Record<string, ImageTally>; // Keyed by image id
+
+// Below this many guesses a share says more about luck than about the image
+export const MIN_CROWD_SAMPLE = 20;
+
+/**
+ * One outcome per image the guess showed. A wrong answer counts against every image the player
+ * misjudged: the one they picked, and the odd one out they were looking for and missed, which
+ * in a pair is the AI image that fooled them. Any other candidates were only seen.
+ */
+export const outcomesFromGuess = (guess: GuessRecord, isAI: (imageId: string) => boolean): GuessOutcome[] =>
+  guess.imageIds.map(imageId => ({
+    imageId,
+    correct: guess.isCorrect || (imageId !== guess.chosenImageId && isAI(imageId) !== (guess.guess === 'ai')),
+  }));
+
+export const addOutcomes = (stats: CrowdStats, outcomes: GuessOutcome[]): CrowdStats => {
+  const next = { ...stats };
+  for (const { imageId, correct } of outcomes) {
+    const tally = next[imageId] ?? { shown: 0, wrong: 0 };
+    next[imageId] = { shown: tally.shown + 1, wrong: tally.wrong + (correct ? 0 : 1) };
+  }
+  return next;
+};
+
+/**
+ * Share of guesses on an image that were wrong, 0-1. Null until enough players have seen it.
+ */
+export const getFooledShare = (tally: ImageTally | undefined): number | null =>
+  tally && tally.shown >= MIN_CROWD_SAMPLE ? tally.wrong / tally.shown : null;
+
+export interface ReportImage {
+  id: string;
+  category: Category;
+  file: string; // Source path, so a maintainer can find it
+}
+
+export interface RankedImage extends ReportImage {
+  tally: ImageTally;
+  fooledShare: number;
+}
+
+export interface CategoryDeception {
+  category: Category;
+  mostDeceptive: RankedImage[];
+  leastDeceptive: RankedImage[];
+  rated: number; // Images with enough guesses to rank
+  unrated: number; // Images seen too few times to rank
+}
+
+/**
+ * Ranks images by how often they fool players, per category, for deciding which to retire.
+ * Images below the minimum sample are counted but not ranked.
+ */
+export const rankByDeception = (images: ReportImage[], stats: CrowdStats, limit: number): CategoryDeception[] => {
+  const byCategory = new Map<Category, { ranked: RankedImage[]; unrated: number }>();
+  for (const image of images) {
+    const group = byCategory.get(image.category) ?? { ranked: [], unrated: 0 };
+    byCategory.set(image.category, group);
+    const tally = stats[image.id];
+    const fooledShare = getFooledShare(tally);
+    if (tally && fooledShare !== null) {
+      group.ranked.push({ ...image, tally, fooledShare });
+    } else {
+      group.unrated++;
+    }
+  }
+
+  return [...byCategory.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, { ranked, unrated }]) => {
+      // More guesses break ties, as the better-established share
+      const most = [...ranked].sort((a, b) => b.fooledShare - a.fooledShare || b.tally.shown - a.tally.shown);
+      const least = [...ranked].sort((a, b) => a.fooledShare - b.fooledShare || b.tally.shown - a.tally.shown);
+      return {
+        category,
+        mostDeceptive: most.slice(0, limit),
+        leastDeceptive: least.slice(0, limit),
+        rated: ranked.length,
+        unrated,
+      };
+    });
+};
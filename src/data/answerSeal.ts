@@ -0,0 +1,16 @@
+// The real/AI label never ships in plain form. The build plugin stores every
+// label XOR-ed with a bit derived from the image id and a per-catalog key, so
+// the answer can't be read off URLs, ids or the catalog at a glance. The key and
+// this code ship in the bundle too, and dealing unseals every label on load to
+// sort images into real and AI: it hides labels from casual inspection only,
+// and anyone who reads the bundle can tell every answer before guessing.
+
+import { fnv1a } from '../utils/hash';
+
+const answerMask = (key: string, id: string): number => fnv1a(`${key}:${id}`) & 1;
+
+export const sealAnswer = (key: string, id: string, isAI: boolean): number =>
+  (isAI ? 1 : 0) ^ answerMask(key, id);
+
+export const unsealAnswer = (key: string, id: string, seal: number): boolean =>
+  ((seal ^ answerMask(key, id)) & 1) === 1;
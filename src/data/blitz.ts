@@ -0,0 +1,39 @@
+import { GuessRecord } from '../types';
+
+// Blitz: as many correct calls as possible before the clock runs out.
+// Right answers score base points plus a bonus for answering fast;
+// wrong answers cost points, so guessing blindly doesn't pay.
+
+export const BLITZ_DURATION_MS = 60_000;
+
+const CORRECT_POINTS = 100;
+const MAX_SPEED_BONUS = 100;
+// The bonus shrinks linearly to nothing at this response time
+const SPEED_BONUS_WINDOW_MS = 3000;
+const WRONG_PENALTY = 50;
+
+export interface BlitzSummary {
+  points: number;
+  answersPerMinute: number;
+  averageDecisionMs: number;
+}
+
+export const scoreBlitzGuess = (isCorrect: boolean, responseTimeMs: number): number => {
+  if (!isCorrect) return -WRONG_PENALTY;
+  const speed = Math.max(0, 1 - responseTimeMs / SPEED_BONUS_WINDOW_MS);
+  return CORRECT_POINTS + Math.round(MAX_SPEED_BONUS * speed);
+};
+
+/**
+ * Pace stats for the summary screen.
+ * @param points - Final points, as tracked by the game state
+ * @param guesses - Every guess made before the clock ran out
+ */
+export const summarizeBlitz = (points: number, guesses: GuessRecord[]): BlitzSummary => {
+  const totalDecisionMs = guesses.reduce((sum, guess) => sum + guess.responseTimeMs, 0);
+  return {
+    points,
+    answersPerMinute: Math.round((guesses.length / BLITZ_DURATION_MS) * 60_000),
+    averageDecisionMs: guesses.length > 0 ? Math.round(totalDecisionMs / guesses.length) : 0,
+  };
+};
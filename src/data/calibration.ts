@@ -0,0 +1,61 @@
+import { GuessRecord } from '../types';
+
+// Confidence-rated guesses are scored with proper scoring rules: a player
+// gets the best expected score by stating their honest confidence.
+
+// Probability that the guess is right. 50% would be a coin flip, so it isn't offered.
+export const CONFIDENCE_LEVELS = [0.55, 0.7, 0.9, 0.99];
+
+// Stated confidence further than this from actual accuracy gets called out
+const CALIBRATION_TOLERANCE = 0.05;
+
+export type CalibrationVerdict = 'overconfident' | 'underconfident' | 'calibrated';
+
+export interface CalibrationBin {
+  confidence: number;
+  count: number;
+  accuracy: number; // 0-1; 0 when the bin is empty
+}
+
+export interface CalibrationSummary {
+  guesses: number; // Rated guesses only
+  brierScore: number; // 0 is perfect, 0.25 matches always saying 50%
+  logScore: number; // Mean log2 of the probability given to the outcome; 0 is perfect, -1 matches 50%
+  meanConfidence: number;
+  accuracy: number;
+  verdict: CalibrationVerdict;
+  bins: CalibrationBin[];
+}
+
+type RatedGuess = GuessRecord & { confidence: number };
+
+const isRated = (guess: GuessRecord): guess is RatedGuess => typeof guess.confidence === 'number';
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Scores the confidence-rated guesses in a round. Returns null if none were rated.
+ */
+export const summarizeCalibration = (guesses: GuessRecord[]): CalibrationSummary | null => {
+  const rated = guesses.filter(isRated);
+  if (rated.length === 0) return null;
+
+  const outcome = (guess: RatedGuess) => (guess.isCorrect ? 1 : 0);
+  const brierScore = mean(rated.map(guess => (guess.confidence - outcome(guess)) ** 2));
+  const logScore = mean(rated.map(guess => Math.log2(guess.isCorrect ? guess.confidence : 1 - guess.confidence)));
+  const meanConfidence = mean(rated.map(guess => guess.confidence));
+  const accuracy = mean(rated.map(outcome));
+
+  const gap = meanConfidence - accuracy;
+  const verdict: CalibrationVerdict = gap > CALIBRATION_TOLERANCE
+    ? 'overconfident'
+    : gap < -CALIBRATION_TOLERANCE ? 'underconfident' : 'calibrated';
+
+  const bins = CONFIDENCE_LEVELS.map(confidence => {
+    const inBin = rated.filter(guess => guess.confidence === confidence);
+    return { confidence, count: inBin.length, accuracy: mean(inBin.map(outcome)) };
+  });
+
+  return { guesses: rated.length, brierScore, logScore, meanConfidence, accuracy, verdict, bins };
+};
@@ -0,0 +1,36 @@
+import { Image, ImageFormat } from '../types';
+import { pickVariantSrc } from './imageVariants';
+
+// Which variant a game card shows. Cards render it as a plain src rather than through srcset,
+// so the card, the preload queue and the service worker all ask for the same file.
+
+// Game cards are never wider than the single layout's frame (max-w-xl)
+const CARD_MAX_WIDTH_PX = 576;
+
+// A 1x1 AVIF; browsers that decode it get AVIF, the rest WebP, which every browser the game supports decodes
+const AVIF_PROBE = 'data:image/avif;base64,AAAAHGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZgAAANZtZXRhAAAAAAAAACFoZGxyAAAAAAAAAABwaWN0AAAAAAAAAAAAAAAAAAAAAA5waXRtAAAAAAABAAAAImlsb2MAAAAAREAAAQABAAAAAAD6AAEAAAAAAAAAGQAAACNpaW5mAAAAAAABAAAAFWluZmUCAAAAAAEAAGF2MDEAAAAAVmlwcnAAAAA4aXBjbwAAAAxhdjFDgSACAAAAABRpc3BlAAAAAAAAAAEAAAABAAAAEHBpeGkAAAAAAwgICAAAABZpcG1hAAAAAAAAAAEAAQOBAgMAAAAhbWRhdBIACgc4AAYQENBpMgwYAAooooQAALATS9g=';
+
+let supportedFormats: ImageFormat[] = ['webp', 'jpeg'];
+
+/**
+ * The variant a game card shows on this screen: wide enough for the card at the screen's pixel density.
+ */
+export const getCardImageSrc = (image: Image): string => {
+  const cssWidth = Math.min(window.innerWidth, CARD_MAX_WIDTH_PX);
+  return pickVariantSrc(image.variants, cssWidth * (window.devicePixelRatio || 1), supportedFormats);
+};
+
+/**
+ * Checks whether the browser decodes AVIF. Finish it before anything picks a card's variant:
+ * picks made earlier use WebP, and would not match the ones made after.
+ */
+export const detectImageFormats = (): Promise<void> =>
+  new Promise(resolve => {
+    const probe = new window.Image();
+    probe.onload = () => {
+      supportedFormats = ['avif', 'webp', 'jpeg'];
+      resolve();
+    };
+    probe.onerror = () => resolve();
+    probe.src = AVIF_PROBE;
+  });
@@ -0,0 +1,75 @@
+import { GameLayout, DailyResult, Image } from '../types';
+import { createSeededRandom, seedFromString } from '../utils/random';
+import { loadProfile, recordDailyResult } from '../storage/profile';
+import { getFilteredImages, PAIR_FORMAT, pickChallenge } from './images';
+
+export const DAILY_ROUND_LENGTH = 10;
+
+const DAILY_HISTORY_LENGTH = 50; // Same no-repeat window as the classic pair picker
+
+export interface DailyChallenge {
+  dateKey: string;
+  layout: GameLayout;
+  seed: string; // Replays the same rounds outside the daily
+  rounds: Image[][]; // Images shown per guess, in display order
+}
+
+/**
+ * The daily key is the player's local calendar date, so the challenge flips at their midnight.
+ */
+export const getDailyKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getDailySeed = (layout: GameLayout, dateKey: string): string => `daily:${dateKey}:${layout}`;
+
+/**
+ * The date a daily seed deals, or null if it isn't one.
+ */
+export const getDailySeedDate = (seed: string): string | null => /^daily:(\d{4}-\d{2}-\d{2}):/.exec(seed)?.[1] ?? null;
+
+/**
+ * Builds the fixed image sequence for a date. Every player on the same date and
+ * layout gets the same rounds, because all picks come from one seeded PRNG.
+ */
+export const buildDailyChallenge = (layout: GameLayout, dateKey: string = getDailyKey()): DailyChallenge => {
+  const seed = getDailySeed(layout, dateKey);
+  const random = createSeededRandom(seedFromString(seed));
+
+  if (layout === 'single') {
+    const images = getFilteredImages('all', random).slice(0, DAILY_ROUND_LENGTH);
+    return { dateKey, layout, seed, rounds: images.map(image => [image]) };
+  }
+
+  const rounds: Image[][] = [];
+  let recentIds: string[] = [];
+  for (let i = 0; i < DAILY_ROUND_LENGTH; i++) {
+    const challenge = pickChallenge('all', PAIR_FORMAT, recentIds, random);
+    if (!challenge) break;
+    rounds.push(challenge.candidates);
+    recentIds = [...challenge.candidates.map(image => image.id), ...recentIds].slice(0, DAILY_HISTORY_LENGTH);
+  }
+  return { dateKey, layout, seed, rounds };
+};
+
+export const getDailyResult = (dateKey: string): DailyResult | null => loadProfile().dailyResults[dateKey] ?? null;
+
+/**
+ * Records today's attempt, from its first guess on, so reloading mid-round resumes it instead of
+ * dealing answers the player has already seen again. One attempt per day is enforced by
+ * checking this before starting.
+ */
+export const saveDailyResult = (result: DailyResult): void => recordDailyResult(result);
+
+/**
+ * Wordle-style grid: one square per guess, five per row.
+ */
+export const formatResultGrid = (results: boolean[]): string => {
+  const rows: string[] = [];
+  for (let i = 0; i < results.length; i += 5) {
+    rows.push(results.slice(i, i + 5).map(correct => (correct ? '🟩' : '🟥')).join(''));
+  }
+  return rows.join('\n');
+};
@@ -0,0 +1,111 @@
+import { TellKind } from '../types';
+
+// Validates the <name>.json sidecars that sit next to source images. Runs at
+// build time from plugins/imageCatalog.ts, which fails the build on any error.
+
+export const TELL_KINDS: TellKind[] = ['hands', 'text', 'lighting', 'reflections', 'anatomy', 'texture', 'background', 'other'];
+
+const ALLOWED_KEYS = ['generator', 'prompt', 'source', 'photographer', 'license', 'difficulty', 'tells'];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+const validateRegion = (region: unknown, path: string, errors: string[]) => {
+  if (!isObject(region)) {
+    errors.push(`${path} must be an object with x, y, width and height`);
+    return;
+  }
+  for (const key of ['x', 'y', 'width', 'height']) {
+    if (!isFraction(region[key])) errors.push(`${path}.${key} must be a number from 0 to 1`);
+  }
+  if (errors.length === 0) {
+    const { x, y, width, height } = region as Record<'x' | 'y' | 'width' | 'height', number>;
+    if (x + width > 1 || y + height > 1) errors.push(`${path} extends past the image edge`);
+  }
+};
+
+/**
+ * Checks a parsed sidecar against the metadata format.
+ * @param raw - The parsed JSON
+ * @param isAI - Whether the sidecar belongs to an AI image; some fields only make sense for one kind
+ * @returns A list of problems, empty when the sidecar is valid
+ */
+export const validateImageMetadata = (raw: unknown, isAI: boolean): string[] => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return ['must be a JSON object'];
+
+  for (const key of Object.keys(raw)) {
+    if (!ALLOWED_KEYS.includes(key)) errors.push(`unknown field "${key}"`);
+  }
+
+  if (raw.generator !== undefined) {
+    if (!isAI) errors.push('generator is only allowed on AI images');
+    if (!isObject(raw.generator) || !isNonEmptyString(raw.generator.model)) {
+      errors.push('generator.model must be a non-empty string');
+    } else if (raw.generator.version !== undefined && !isNonEmptyString(raw.generator.version)) {
+      errors.push('generator.version must be a non-empty string');
+    }
+  }
+
+  if (raw.prompt !== undefined) {
+    if (!isAI) errors.push('prompt is only allowed on AI images');
+    if (!isNonEmptyString(raw.prompt)) errors.push('prompt must be a non-empty string');
+  }
+
+  if (raw.source !== undefined) {
+    if (!isObject(raw.source) || !isNonEmptyString(raw.source.credit)) {
+      errors.push('source.credit must be a non-empty string');
+    } else if (raw.source.url !== undefined && !isNonEmptyString(raw.source.url)) {
+      errors.push('source.url must be a non-empty string');
+    }
+  }
+
+  if (raw.photographer !== undefined) {
+    if (isAI) errors.push('photographer is only allowed on real images');
+    if (!isNonEmptyString(raw.photographer)) errors.push('photographer must be a non-empty string');
+  }
+
+  if (raw.license !== undefined && !isNonEmptyString(raw.license)) {
+    errors.push('license must be a non-empty string');
+  }
+
+  if (raw.difficulty !== undefined) {
+    const { difficulty } = raw;
+    if (typeof difficulty !== 'number' || !Number.isInteger(difficulty) || difficulty < 1 || difficulty > 5) {
+      errors.push('difficulty must be an integer from 1 to 5');
+    }
+  }
+
+  if (raw.tells !== undefined) {
+    if (!Array.isArray(raw.tells)) {
+      errors.push('tells must be an array');
+    } else {
+      raw.tells.forEach((tell: unknown, index) => {
+        const path = `tells[${index}]`;
+        if (!isObject(tell)) {
+          errors.push(`${path} must be an object`);
+          return;
+        }
+        if (!TELL_KINDS.includes(tell.kind as TellKind)) {
+          errors.push(`${path}.kind must be one of ${TELL_KINDS.join(', ')}`);
+        }
+        if (!isNonEmptyString(tell.description)) errors.push(`${path}.description must be a non-empty string`);
+        if (tell.region !== undefined) {
+          const regionErrors: string[] = [];
+          validateRegion(tell.region, `${path}.region`, regionErrors);
+          errors.push(...regionErrors);
+        }
+      });
+    }
+  }
+
+  return errors;
+};
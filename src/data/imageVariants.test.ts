@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { ImageFormat } from '../types';
+import { IMAGE_FORMATS, IMAGE_WIDTHS, pickVariantSrc } from './imageVariants';
+
+const variants = Object.fromEntries(
+  IMAGE_FORMATS.map(format => [format, IMAGE_WIDTHS.map(width => `${format}-${width}`)]),
+) as Record<ImageFormat, string[]>;
+
+describe('pickVariantSrc', () => {
+  it('takes the narrowest width that covers the display', () => {
+    expect(pickVariantSrc(variants, 300, ['webp', 'jpeg'])).toBe('webp-480');
+    expect(pickVariantSrc(variants, 480, ['webp', 'jpeg'])).toBe('webp-480');
+    expect(pickVariantSrc(variants, 481, ['webp', 'jpeg'])).toBe('webp-960');
+  });
+
+  it('falls back to the widest for displays wider than every variant', () => {
+    expect(pickVariantSrc(variants, 3000, ['webp', 'jpeg'])).toBe('webp-1600');
+  });
+
+  it('prefers the best supported format', () => {
+    expect(pickVariantSrc(variants, 900, ['avif', 'webp', 'jpeg'])).toBe('avif-960');
+    expect(pickVariantSrc(variants, 900, ['jpeg'])).toBe('jpeg-960');
+  });
+});
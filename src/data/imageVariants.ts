@@ -0,0 +1,41 @@
+import { ImageFormat } from '../types';
+
+// Every image is published at a few fixed widths in AVIF, WebP and JPEG; plugins/imageVariants.ts
+// encodes them. Pages hand the browser all of them through <picture>/srcset; the preload queue
+// and the service worker can't, so cardImage.ts picks one the way the browser would.
+
+// Sources are upscaled to the widest, so every image comes in exactly these sizes whatever
+// its original resolution
+export const IMAGE_WIDTHS = [480, 960, 1600];
+
+// Best first: browsers take the first <source> they can decode, and JPEG always works
+export const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg'];
+
+export const IMAGE_FORMAT_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+export const IMAGE_FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  avif: '.avif',
+  webp: '.webp',
+  jpeg: '.jpg',
+};
+
+export const toSrcSet = (urls: string[]): string =>
+  urls.map((url, i) => `${url} ${IMAGE_WIDTHS[i]}w`).join(', ');
+
+/**
+ * The variant to download for a display width in device pixels: the best supported
+ * format, at the narrowest width that covers it.
+ */
+export const pickVariantSrc = (
+  variants: Record<ImageFormat, string[]>,
+  pixelWidth: number,
+  formats: ImageFormat[],
+): string => {
+  const format = IMAGE_FORMATS.find(candidate => formats.includes(candidate)) ?? 'jpeg';
+  const index = IMAGE_WIDTHS.findIndex(width => width >= pixelWidth);
+  return variants[format][index === -1 ? IMAGE_WIDTHS.length - 1 : index];
+};
@@ -1,32 +1,62 @@
-import { Category, Image } from '../types';
+import { Category, Challenge, ChallengeFormat, FilterCategory, Image, ImageMetadata } from '../types';
+import { RandomSource, randomInt } from '../utils/random';
+import catalogEntries, { catalogKey } from 'virtual:image-catalog';
+import { unsealAnswer } from './answerSeal';
+import { createLogger } from '../utils/logger';
 
-// Use Vite's import.meta.glob to find all image files at build time
-// Now only looking for .jpg files in the main category/type directories.
-const allImageFiles = import.meta.glob('/public/images/*/*/*.jpg');
+// The catalog is generated at build time by plugins/imageCatalog.ts from the
+// images/<category>/<real|ai>/ folders. Entries only carry opaque content-hash
+// ids and URLs; the real/AI label is sealed against casual inspection (see answerSeal.ts).
+// Dealing unseals every label when the catalog loads; the rest of the app only reads
+// them once a guess has been made.
+
+export type CatalogEntry = (typeof catalogEntries)[number];
+
+const log = createLogger('images');
 
 // Object to cache generated image lists by category
 const categoryImageCache: Partial<Record<Category, { real: Image[], ai: Image[] }>> = {};
 
-// Determine available categories and populate cache simultaneously
-const availableCategoriesSet = new Set<Category>();
+// Lookup for anything that stores image ids, like the guess log
+const imagesById = new Map<string, Image>();
 
-for (const path in allImageFiles) {
-  // Example path could be: /public/images/people/real/1.jpg
-  // OR it could incorrectly pick up /public/images/people/real/lqip/1.jpg if not filtered
+// Categories with both real and AI images; filled by loadCatalog
+export const availableCategories: Category[] = [];
 
-  const parts = path.split('/');
-  // parts for /public/images/people/real/1.jpg => ['', 'public', 'images', 'people', 'real', '1.jpg'] (length 6)
-  // parts for /public/images/people/real/lqip/1.jpg => ['', 'public', 'images', 'people', 'real', 'lqip', '1.jpg'] (length 7)
+let sealKey = catalogKey;
 
-  // Filter out paths that are within an 'lqip' subfolder
-  if (parts.length > 6 && parts[parts.length - 2].toLowerCase() === 'lqip') {
-    // This is an LQIP file itself, skip it as a main image
-    continue;
+/**
+ * Reveals whether an image is AI-generated. Outside of dealing, only call this once the player has guessed.
+ */
+export const isAIImage = (image: Image): boolean => unsealAnswer(sealKey, image.id, image.seal);
+
+/**
+ * Replaces the image catalog. The app loads the build-time catalog on startup;
+ * tests load catalogs built from fixture path lists.
+ */
+export const loadCatalog = (entries: CatalogEntry[], key: string): void => {
+  sealKey = key;
+  imagesById.clear();
+  metadataCache.clear();
+  for (const category of Object.keys(categoryImageCache)) {
+    delete categoryImageCache[category as Category];
   }
 
-  if (parts.length >= 6) { // Should be true for main images like /public/images/category/type/filename.jpg
-    const category = parts[3] as Category;
-    const type = parts[4]; // 'real' or 'ai'
+  for (const entry of entries) {
+    const category = entry.category as Category;
+    const image: Image = {
+      id: entry.id,
+      src: entry.src,
+      variants: entry.variants,
+      lqipSrc: entry.lqipSrc,
+      category: category,
+      seal: entry.seal,
+      metaSrc: entry.metaSrc,
+    };
+
+    imagesById.set(image.id, image);
+    // Retired images stay findable for past rounds, but are never dealt
+    if (entry.retired) continue;
 
     // Initialize cache for this category if first time seeing it
     if (!categoryImageCache[category]) {
@@ -36,74 +66,69 @@ for (const path in allImageFiles) {
     // Now we know categoryImageCache[category] is defined
     const cacheEntry = categoryImageCache[category]!;
 
-    const filenameWithExtension = path.split('/').pop();
-    let index: number | string | undefined = undefined;
-    let lqipSrc: string | undefined = undefined;
-
-    if (filenameWithExtension) {
-        // Original filename is now always .jpg
-        const filenameWithoutExtension = filenameWithExtension.substring(0, filenameWithExtension.lastIndexOf('.'));
-        
-        // Construct LQIP source path, e.g., /images/category/type/lqip/filename.jpg
-        const basePathForLqip = path.substring(0, path.lastIndexOf('/') + 1).replace('/public', '');
-        lqipSrc = `${basePathForLqip}lqip/${filenameWithoutExtension}.jpg`;
-
-        const fileIndexMatch = filenameWithoutExtension.match(/^(\d+)$/); // Match if filename IS a number
-        if (fileIndexMatch && fileIndexMatch[1]) {
-             index = parseInt(fileIndexMatch[1], 10);
-        } else {
-            // Fallback if no numeric prefix is found, use the filename without extension
-            index = filenameWithoutExtension;
-        }
+    if (isAIImage(image)) {
+      cacheEntry.ai.push(image);
     } else {
-        // Fallback if filename couldn't be extracted (shouldn't happen with glob pattern)
-        index = 'unknown';
-    }
-
-    const image: Image = {
-      id: `${type}-${category}-${index}`,
-      src: path.replace('/public', ''),
-      lqipSrc: lqipSrc,
-      category: category,
-      isAI: type === 'ai',
-    };
-
-    if (type === 'real') {
       cacheEntry.real.push(image);
-    } else if (type === 'ai') {
-      cacheEntry.ai.push(image);
     }
   }
-}
-
-// Now determine available categories based on the populated cache
-for (const cat in categoryImageCache) {
-  const category = cat as Category;
-  const entry = categoryImageCache[category]; // Get the entry
-  // Check if the entry exists and has both real and AI images
-  if (entry && entry.real.length > 0 && entry.ai.length > 0) {
-    availableCategoriesSet.add(category);
-  }
-}
 
-export const availableCategories: Category[] = Array.from(availableCategoriesSet);
+  // Now determine available categories based on the populated cache
+  const available = (Object.keys(categoryImageCache) as Category[]).filter(category => {
+    const entry = categoryImageCache[category];
+    // Check if the entry exists and has both real and AI images
+    return !!entry && entry.real.length > 0 && entry.ai.length > 0;
+  });
+  availableCategories.splice(0, availableCategories.length, ...available);
+};
+
+/**
+ * Looks up an image by id. Returns undefined for ids no longer in the catalog.
+ */
+export const getImageById = (id: string): Image | undefined => imagesById.get(id);
+
+const metadataCache = new Map<string, Promise<ImageMetadata>>();
+
+
+/**
+ * Fetches an image's metadata (generator, credits, tells). Sidecars were validated at build time.
+ * Like `isAIImage`, only call this once the player has guessed: the contents give the answer away.
+ */
+export const loadImageMetadata = (image: Image): Promise<ImageMetadata> => {
+  if (!image.metaSrc) return Promise.resolve({});
+  let pending = metadataCache.get(image.id);
+  if (!pending) {
+    pending = fetch(image.metaSrc)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load ${image.metaSrc}: ${response.status}`);
+        return response.json() as Promise<ImageMetadata>;
+      })
+      .catch(error => {
+        // Let a later call retry instead of caching the failure
+        metadataCache.delete(image.id);
+        throw error;
+      });
+    metadataCache.set(image.id, pending);
+  }
+  return pending;
+};
 
 // getCategoryImages now simply returns the cached & dynamically generated lists
 export const getCategoryImages = (category: Category): { real: Image[], ai: Image[] } => {
   if (availableCategories.includes(category) && categoryImageCache[category]) {
     return categoryImageCache[category];
   } else {
-    console.warn(`getCategoryImages called for unavailable or empty category: ${category}`);
+    log.warn(`getCategoryImages called for unavailable or empty category: ${category}`);
     return { real: [], ai: [] }; // Return empty arrays if category not truly available
   }
 };
 
 // --- NEW FUNCTION ---
 // Helper to shuffle an array (Fisher-Yates)
-const shuffleArray = <T,>(array: T[]): T[] => {
+export const shuffleArray = <T,>(array: T[], random: RandomSource): T[] => {
   const shuffledArray = [...array];
   for (let i = shuffledArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(random, i + 1);
     [shuffledArray[i], shuffledArray[j]] = [shuffledArray[j], shuffledArray[i]];
   }
   return shuffledArray;
@@ -111,9 +136,10 @@ const shuffleArray = <T,>(array: T[]): T[] => {
 
 /**
  * Gathers all unique images from all categories stored in the cache.
+ * @param random - Seeded source of randomness for the shuffle
  * @returns A shuffled array of unique Image objects.
  */
-export const getAllUniqueImages = (): Image[] => {
+export const getAllUniqueImages = (random: RandomSource): Image[] => {
   const allImages: Image[] = [];
   const seenIds = new Set<string>();
 
@@ -136,23 +162,24 @@ export const getAllUniqueImages = (): Image[] => {
       });
     }
   }
-  console.log(`[getAllUniqueImages] Found ${allImages.length} unique images across all categories.`);
-  return shuffleArray(allImages);
+  log.debug(`Found ${allImages.length} unique images across all categories`);
+  return shuffleArray(allImages, random);
 };
 
 /**
  * Gets images filtered by category
  * @param filterCategory - The category to filter by, or 'all' for all categories
+ * @param random - Seeded source of randomness for the shuffle
  * @returns A shuffled array of unique Image objects from the specified category
  */
-export const getFilteredImages = (filterCategory: 'all' | Category): Image[] => {
+export const getFilteredImages = (filterCategory: FilterCategory, random: RandomSource): Image[] => {
   if (filterCategory === 'all') {
-    return getAllUniqueImages();
+    return getAllUniqueImages(random);
   }
 
   const entry = categoryImageCache[filterCategory];
   if (!entry) {
-    console.warn(`[getFilteredImages] No images found for category: ${filterCategory}`);
+    log.warn(`No images found for category: ${filterCategory}`);
     return [];
   }
 
@@ -175,6 +202,81 @@ export const getFilteredImages = (filterCategory: 'all' | Category): Image[] =>
     }
   });
 
-  console.log(`[getFilteredImages] Found ${filteredImages.length} unique images for category: ${filterCategory}`);
-  return shuffleArray(filteredImages);
+  log.debug(`Found ${filteredImages.length} unique images for category: ${filterCategory}`);
+  return shuffleArray(filteredImages, random);
 };
+
+export const PAIR_FORMAT: ChallengeFormat = { size: 2, target: 'ai' };
+export const MIN_CHALLENGE_SIZE = 2;
+export const MAX_CHALLENGE_SIZE = 6;
+
+// How often to redraw an image that was shown recently before accepting it anyway
+const MAX_PICK_ATTEMPTS = 20;
+
+/**
+ * Draws `count` distinct images from a pool, avoiding recently used ids where possible.
+ * Returns null if the pool is too small.
+ */
+const pickDistinct = (pool: Image[], count: number, recentIds: string[], random: RandomSource): Image[] | null => {
+  if (pool.length < count) return null;
+  const picked: Image[] = [];
+  const pickedIds = new Set<string>();
+
+  for (let i = 0; i < count; i++) {
+    let image: Image;
+    let attempts = 0;
+    do {
+      image = pool[randomInt(random, pool.length)];
+      attempts++;
+    } while ((recentIds.includes(image.id) || pickedIds.has(image.id)) && attempts < MAX_PICK_ATTEMPTS);
+
+    // Out of attempts on a duplicate: take the first unused image instead
+    if (pickedIds.has(image.id)) {
+      image = pool.find(candidate => !pickedIds.has(candidate.id))!;
+    }
+    picked.push(image);
+    pickedIds.add(image.id);
+  }
+
+  return picked;
+};
+
+/**
+ * Builds a challenge: one image of the target kind among `size - 1` of the other kind,
+ * all from the same category and shuffled into display order.
+ * @param filterCategory - The category to pick from, or 'all' to pick a random available category
+ * @param format - How many candidates, and which kind is the odd one out
+ * @param recentIds - Ids shown recently, most recent first
+ * @param random - Seeded source of randomness
+ * @returns The challenge, or null if the chosen category can't fill it
+ */
+export const pickChallenge = (
+  filterCategory: FilterCategory,
+  format: ChallengeFormat,
+  recentIds: string[],
+  random: RandomSource,
+): Challenge | null => {
+  if (availableCategories.length === 0) return null;
+
+  const chosenCategory: Category = filterCategory === 'all'
+    ? availableCategories[randomInt(random, availableCategories.length)]
+    : filterCategory;
+
+  const { real, ai } = getCategoryImages(chosenCategory);
+  const [targetPool, otherPool] = format.target === 'ai' ? [ai, real] : [real, ai];
+
+  // The draw order (others, then the odd one, then the shuffle) keeps seeded pair sequences
+  // identical to the ones built before challenges had more than two images
+  const others = pickDistinct(otherPool, format.size - 1, recentIds, random);
+  const odd = pickDistinct(targetPool, 1, recentIds, random);
+  if (!others || !odd) return null;
+
+  return {
+    category: chosenCategory,
+    candidates: shuffleArray([...others, ...odd], random),
+    target: format.target,
+  };
+};
+
+// The build-time catalog is the one the app plays with
+loadCatalog(catalogEntries, catalogKey);
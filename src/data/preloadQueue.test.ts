@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createPreloadQueue } from './preloadQueue';
+
+// A loader whose loads finish when the test says so
+const controlledLoader = () => {
+  const pending = new Map<string, { resolve: (blob: Blob) => void; reject: (error: Error) => void; signal: AbortSignal }>();
+  const load = (src: string, signal: AbortSignal) =>
+    new Promise<Blob>((resolve, reject) => {
+      pending.set(src, { resolve, reject, signal });
+      signal.addEventListener('abort', () => {
+        pending.delete(src);
+        reject(new Error('aborted'));
+      });
+    });
+  const settle = async (src: string, ok = true) => {
+    const load = pending.get(src)!;
+    pending.delete(src);
+    if (ok) load.resolve(new Blob([src])); else load.reject(new Error('404'));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+  return { load, pending, settle };
+};
+
+const fakeUrls = () => {
+  const live = new Set<string>();
+  let next = 0;
+  return {
+    live,
+    objectUrls: {
+      create: () => { const url = `blob:${next++}`; live.add(url); return url; },
+      revoke: (url: string) => { live.delete(url); },
+    },
+  };
+};
+
+describe('preload queue', () => {
+  it('loads the most wanted images first, a few at a time', async () => {
+    const loader = controlledLoader();
+    const queue = createPreloadQueue({ concurrency: 2, load: loader.load, objectUrls: fakeUrls().objectUrls });
+
+    queue.want(['a', 'b', 'c']);
+    expect([...loader.pending.keys()]).toEqual(['a', 'b']);
+    expect(queue.lookup('c')).toEqual({ state: 'loading' });
+    expect(queue.lookup('d')).toBeNull();
+
+    await loader.settle('b');
+    expect(queue.lookup('b')).toEqual({ state: 'ready', url: 'blob:0' });
+    expect([...loader.pending.keys()]).toEqual(['a', 'c']);
+
+    await loader.settle('a', false);
+    expect(queue.lookup('a')).toEqual({ state: 'failed' });
+  });
+
+  it('cancels loads that are no longer wanted', () => {
+    const loader = controlledLoader();
+    const queue = createPreloadQueue({ concurrency: 2, load: loader.load, objectUrls: fakeUrls().objectUrls });
+
+    queue.want(['a', 'b']);
+    const { signal } = loader.pending.get('a')!;
+    queue.want(['b', 'c']);
+
+    expect(signal.aborted).toBe(true);
+    expect(queue.lookup('a')).toBeNull();
+    expect([...loader.pending.keys()]).toEqual(['b', 'c']);
+  });
+
+  it('keeps a few ready images after they stop being wanted and revokes the rest', async () => {
+    const loader = controlledLoader();
+    const urls = fakeUrls();
+    const queue = createPreloadQueue({ concurrency: 3, keepReady: 1, load: loader.load, objectUrls: urls.objectUrls });
+
+    queue.want(['a']);
+    await loader.settle('a');
+    queue.want(['b']);
+    await loader.settle('b');
+    queue.want(['c']);
+
+    // b was wanted more recently, so it stays; a is evicted and its URL revoked
+    expect(queue.lookup('a')).toBeNull();
+    expect(queue.lookup('b')).toEqual({ state: 'ready', url: 'blob:1' });
+    expect([...urls.live]).toEqual(['blob:1']);
+
+    // Wanted again, it is handed out as is, without loading twice
+    queue.want(['b', 'c']);
+    expect(queue.lookup('b')).toEqual({ state: 'ready', url: 'blob:1' });
+    expect([...loader.pending.keys()]).toEqual(['c']);
+  });
+
+  it('tells subscribers when an image is ready', async () => {
+    const loader = controlledLoader();
+    const queue = createPreloadQueue({ load: loader.load, objectUrls: fakeUrls().objectUrls });
+    let calls = 0;
+    const unsubscribe = queue.subscribe(() => calls++);
+
+    queue.want(['a']);
+    await loader.settle('a');
+    unsubscribe();
+    queue.want([]);
+
+    expect(calls).toBe(2);
+  });
+});
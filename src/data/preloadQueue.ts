@@ -0,0 +1,139 @@
+// Loads full-size images before they are shown. The game says which images it wants, in
+// priority order (on screen first, then the next deals); the queue fetches them a few at a
+// time, drops loads nobody wants any more and hands out object URLs once they are ready.
+// The queue owns those URLs: it revokes them when it evicts an image, never the components.
+
+export type PreloadedImage =
+  | { state: 'loading' }
+  | { state: 'ready'; url: string }
+  | { state: 'failed' };
+
+export interface PreloadQueue {
+  want(srcs: string[]): void; // Replaces the wanted list; earlier means sooner
+  lookup(src: string): PreloadedImage | null; // Null when the image isn't queued
+  subscribe(listener: () => void): () => void;
+}
+
+export interface PreloadQueueOptions {
+  concurrency?: number; // Loads in flight at once
+  keepReady?: number; // Ready images kept after they stop being wanted, e.g. for exit animations
+  load?: (src: string, signal: AbortSignal) => Promise<Blob>;
+  objectUrls?: { create(blob: Blob): string; revoke(url: string): void };
+}
+
+interface Entry {
+  status: PreloadedImage; // Replaced, never mutated, so it can be a React snapshot
+  controller?: AbortController;
+  lastWanted: number; // want() call that last listed it, for eviction
+}
+
+const LOADING: PreloadedImage = { state: 'loading' };
+const FAILED: PreloadedImage = { state: 'failed' };
+
+const fetchBlob = async (src: string, signal: AbortSignal): Promise<Blob> => {
+  const response = await fetch(src, { signal });
+  if (!response.ok) throw new Error(`Failed to load ${src}: ${response.status}`);
+  return response.blob();
+};
+
+export const createPreloadQueue = ({
+  concurrency = 4,
+  keepReady = 12,
+  load = fetchBlob,
+  objectUrls = { create: blob => URL.createObjectURL(blob), revoke: url => URL.revokeObjectURL(url) },
+}: PreloadQueueOptions = {}): PreloadQueue => {
+  const entries = new Map<string, Entry>();
+  const listeners = new Set<() => void>();
+  let wanted: string[] = [];
+  let generation = 0;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const start = (src: string, entry: Entry) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    load(src, controller.signal)
+      .then(blob => {
+        if (entries.get(src) !== entry) return;
+        entry.status = { state: 'ready', url: objectUrls.create(blob) };
+      })
+      .catch(() => {
+        if (entries.get(src) !== entry) return; // Cancelled
+        entry.status = FAILED;
+      })
+      .finally(() => {
+        if (entries.get(src) !== entry) return;
+        entry.controller = undefined;
+        notify();
+        pump();
+      });
+  };
+
+  // Starts the most wanted loads that aren't running yet, up to the limit
+  const pump = () => {
+    let running = [...entries.values()].filter(entry => entry.controller).length;
+    for (const src of wanted) {
+      if (running >= concurrency) break;
+      const entry = entries.get(src);
+      if (entry && entry.status === LOADING && !entry.controller) {
+        start(src, entry);
+        running++;
+      }
+    }
+  };
+
+  const evict = (src: string, entry: Entry) => {
+    entry.controller?.abort();
+    if (entry.status.state === 'ready') objectUrls.revoke(entry.status.url);
+    entries.delete(src);
+  };
+
+  return {
+    want: srcs => {
+      generation++;
+      wanted = [...new Set(srcs)];
+      for (const src of wanted) {
+        const entry = entries.get(src);
+        if (entry) {
+          entry.lastWanted = generation;
+        } else {
+          entries.set(src, { status: LOADING, lastWanted: generation });
+        }
+      }
+
+      // Unwanted loads are cancelled and failures forgotten; ready images linger, least recent out first
+      const stillWanted = new Set(wanted);
+      const lingering: Array<[string, Entry]> = [];
+      for (const [src, entry] of entries) {
+        if (stillWanted.has(src)) continue;
+        if (entry.status.state === 'ready') {
+          lingering.push([src, entry]);
+        } else {
+          evict(src, entry);
+        }
+      }
+      lingering
+        .sort(([, a], [, b]) => a.lastWanted - b.lastWanted)
+        .slice(0, Math.max(0, lingering.length - keepReady))
+        .forEach(([src, entry]) => evict(src, entry));
+
+      notify();
+      pump();
+    },
+    lookup: src => entries.get(src)?.status ?? null,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+let preloader: PreloadQueue | null = null;
+
+/**
+ * The queue the game and its image cards share.
+ */
+export const getImagePreloader = (): PreloadQueue => {
+  if (!preloader) preloader = createPreloadQueue();
+  return preloader;
+};
@@ -0,0 +1,172 @@
+import { Challenge, ChallengeFormat, DifficultyLevel, FilterCategory, GuessRecord, Rating, RatingState } from '../types';
+import { RandomSource } from '../utils/random';
+import { loadProfile, updateProfile } from '../storage/profile';
+import { INITIAL_RATING } from '../storage/schema';
+import { pickChallenge } from './images';
+
+// Elo-style ratings for the player and for every image, updated after each guess.
+// A guess is a match between the player and the images they were shown: a right
+// answer raises the player and lowers the images, a wrong one does the opposite.
+
+// Players should get roughly this share of guesses right when challenges are picked adaptively
+export const TARGET_SUCCESS_RATE = 0.7;
+
+const PLAYER_K = 32;
+// Images start volatile and settle as guesses accumulate
+const IMAGE_K_MAX = 48;
+const IMAGE_K_MIN = 12;
+
+// Adaptive picking draws this many challenges and keeps the best fit
+const ADAPTIVE_CANDIDATES = 8;
+
+// Images need a few rated guesses before their badge means anything
+const MIN_GAMES_FOR_DIFFICULTY = 3;
+const DIFFICULTY_BAND = 100;
+
+const RATINGS_EXPORT_FORMAT = 'realorai-ratings';
+const RATINGS_EXPORT_VERSION = 1;
+
+export interface RatingsExport {
+  format: typeof RATINGS_EXPORT_FORMAT;
+  version: typeof RATINGS_EXPORT_VERSION;
+  exportedAt: number; // Unix time in ms
+  ratings: RatingState;
+}
+
+const unrated = (): Rating => ({ rating: INITIAL_RATING, games: 0 });
+
+const imageK = (games: number): number => Math.max(IMAGE_K_MIN, IMAGE_K_MAX / Math.sqrt(1 + games));
+
+/**
+ * Chance that a player at `playerRating` answers an item at `itemRating` correctly.
+ */
+export const expectedSuccess = (playerRating: number, itemRating: number): number =>
+  1 / (1 + 10 ** ((itemRating - playerRating) / 400));
+
+/**
+ * A challenge or single image is rated as the mean of its images.
+ */
+export const getItemRating = (ratings: RatingState, imageIds: string[]): number => {
+  if (imageIds.length === 0) return INITIAL_RATING;
+  const total = imageIds.reduce((sum, id) => sum + (ratings.images[id] ?? unrated()).rating, 0);
+  return total / imageIds.length;
+};
+
+/**
+ * Returns the ratings after one guess. Pure, so it can be replayed or tested.
+ */
+export const applyGuess = (ratings: RatingState, guess: GuessRecord): RatingState => {
+  const expected = expectedSuccess(ratings.player.rating, getItemRating(ratings, guess.imageIds));
+  const outcome = guess.isCorrect ? 1 : 0;
+
+  const images = { ...ratings.images };
+  for (const id of guess.imageIds) {
+    const current = images[id] ?? unrated();
+    images[id] = {
+      rating: current.rating + imageK(current.games) * (expected - outcome),
+      games: current.games + 1,
+    };
+  }
+
+  return {
+    player: {
+      rating: ratings.player.rating + PLAYER_K * (outcome - expected),
+      games: ratings.player.games + 1,
+    },
+    images,
+  };
+};
+
+export const loadRatings = (): RatingState => loadProfile().ratings;
+
+export const recordRatedGuess = (guess: GuessRecord): void => {
+  updateProfile(profile => ({ ...profile, ratings: applyGuess(profile.ratings, guess) }));
+};
+
+export interface AdaptivePick {
+  challenge: Challenge;
+  pick: number; // Which of the drawn challenges was kept, 0 to ADAPTIVE_CANDIDATES - 1
+}
+
+/**
+ * Picks a challenge close to the difficulty that keeps the player near TARGET_SUCCESS_RATE.
+ * Draws a handful of ordinary random challenges and keeps the best fit, so variety is preserved
+ * and unrated images still come up.
+ * @param forcedPick - Keep this draw instead, to replay a round picked with someone else's ratings
+ */
+export const pickAdaptiveChallenge = (
+  filterCategory: FilterCategory,
+  format: ChallengeFormat,
+  recentIds: string[],
+  ratings: RatingState,
+  random: RandomSource,
+  forcedPick?: number,
+): AdaptivePick | null => {
+  let best: AdaptivePick | null = null;
+  let bestDistance = Infinity;
+
+  // Always draws every candidate, so the random stream moves on the same way whichever is kept
+  for (let i = 0; i < ADAPTIVE_CANDIDATES; i++) {
+    const challenge = pickChallenge(filterCategory, format, recentIds, random);
+    if (!challenge) continue;
+    const itemRating = getItemRating(ratings, challenge.candidates.map(image => image.id));
+    const distance = i === forcedPick
+      ? -1
+      : Math.abs(expectedSuccess(ratings.player.rating, itemRating) - TARGET_SUCCESS_RATE);
+    if (distance < bestDistance) {
+      best = { challenge, pick: i };
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Buckets an image's rating for the reveal badge. Null until the image has enough rated guesses.
+ */
+export const getImageDifficulty = (ratings: RatingState, imageId: string): DifficultyLevel | null => {
+  const rating = ratings.images[imageId];
+  if (!rating || rating.games < MIN_GAMES_FOR_DIFFICULTY) return null;
+  if (rating.rating < INITIAL_RATING - DIFFICULTY_BAND) return 'easy';
+  if (rating.rating > INITIAL_RATING + DIFFICULTY_BAND) return 'hard';
+  return 'medium';
+};
+
+export const exportRatings = (): RatingsExport => ({
+  format: RATINGS_EXPORT_FORMAT,
+  version: RATINGS_EXPORT_VERSION,
+  exportedAt: Date.now(),
+  ratings: loadRatings(),
+});
+
+const isRating = (value: unknown): value is Rating => {
+  const rating = value as Rating;
+  return typeof value === 'object' && value !== null
+    && Number.isFinite(rating.rating)
+    && Number.isInteger(rating.games) && rating.games >= 0;
+};
+
+/**
+ * Replaces the stored ratings with an exported file's contents.
+ * Throws if the file isn't a ratings export this build understands.
+ */
+export const importRatings = (raw: unknown): RatingState => {
+  const data = raw as Partial<RatingsExport> | null;
+  if (!data || data.format !== RATINGS_EXPORT_FORMAT) {
+    throw new Error('Not a Real or AI ratings file');
+  }
+  if (data.version !== RATINGS_EXPORT_VERSION) {
+    throw new Error(`Unsupported ratings file version ${String(data.version)}`);
+  }
+  const { ratings } = data;
+  if (!ratings || !isRating(ratings.player) || typeof ratings.images !== 'object' || ratings.images === null
+    || !Object.values(ratings.images).every(isRating)) {
+    throw new Error('Ratings file is malformed');
+  }
+
+  // Ratings for images no longer in the catalog are kept; they are harmless and may come back
+  const imported: RatingState = { player: ratings.player, images: ratings.images };
+  updateProfile(profile => ({ ...profile, ratings: imported }));
+  return imported;
+};
@@ -0,0 +1,156 @@
+import { ChallengeFormat, GameLayout, GameRules, RulesPresetId } from '../types';
+import { DAILY_ROUND_LENGTH } from './daily';
+import { MAX_CHALLENGE_SIZE, MIN_CHALLENGE_SIZE, PAIR_FORMAT } from './images';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('rules');
+
+export interface RulesPreset {
+  id: RulesPresetId;
+  label: string;
+  description: string;
+  rules: GameRules;
+}
+
+const STANDARD_RULES: GameRules = {
+  roundLength: 10,
+  advanceDelayMs: 750,
+  confettiStreakInterval: 5,
+  uniqueDisplayTarget: 50,
+};
+
+export const RULES_PRESETS: Record<RulesPresetId, RulesPreset> = {
+  quick: {
+    id: 'quick',
+    label: 'Quick 5',
+    description: 'Five guesses. Good for a queue or a first try.',
+    rules: { ...STANDARD_RULES, roundLength: 5 },
+  },
+  standard: {
+    id: 'standard',
+    label: 'Standard 10',
+    description: 'The classic ten-guess round.',
+    rules: STANDARD_RULES,
+  },
+  marathon: {
+    id: 'marathon',
+    label: 'Marathon 50',
+    description: 'Fifty guesses to really test your eye.',
+    rules: { ...STANDARD_RULES, roundLength: 50, confettiStreakInterval: 10 },
+  },
+  endless: {
+    id: 'endless',
+    label: 'Endless',
+    description: 'Keep going until you choose to stop.',
+    rules: { ...STANDARD_RULES, roundLength: null, confettiStreakInterval: 10 },
+  },
+};
+
+export const DEFAULT_RULES_PRESET: RulesPresetId = 'standard';
+
+// The daily challenge is the same for everyone, so it ignores the chosen preset
+export const DAILY_RULES: GameRules = { ...STANDARD_RULES, roundLength: DAILY_ROUND_LENGTH };
+
+// Blitz rounds end when the clock does, and a long pause between answers would eat into it
+export const BLITZ_RULES: GameRules = { ...STANDARD_RULES, roundLength: null, advanceDelayMs: 300 };
+
+// A device setting rather than player data, so it lives outside the profile
+const RULES_STORAGE_KEY = 'realorai:rules-preset';
+
+const isRulesPresetId = (value: unknown): value is RulesPresetId =>
+  typeof value === 'string' && value in RULES_PRESETS;
+
+/**
+ * The preset chosen on this device, e.g. an event kiosk set to Quick 5.
+ */
+export const loadRulesPreset = (): RulesPresetId => {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    return isRulesPresetId(stored) ? stored : DEFAULT_RULES_PRESET;
+  } catch {
+    return DEFAULT_RULES_PRESET;
+  }
+};
+
+const CHALLENGE_FORMAT_STORAGE_KEY = 'realorai:challenge-format';
+
+const isChallengeFormat = (value: unknown): value is ChallengeFormat => {
+  const format = value as ChallengeFormat | null;
+  return typeof format === 'object' && format !== null
+    && Number.isInteger(format.size) && format.size >= MIN_CHALLENGE_SIZE && format.size <= MAX_CHALLENGE_SIZE
+    && (format.target === 'ai' || format.target === 'real');
+};
+
+/**
+ * Pairs, or an odd-one-out grid. The single layout always shows one image.
+ */
+export const loadChallengeFormat = (): ChallengeFormat => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CHALLENGE_FORMAT_STORAGE_KEY) ?? 'null');
+    return isChallengeFormat(stored) ? stored : PAIR_FORMAT;
+  } catch {
+    return PAIR_FORMAT;
+  }
+};
+
+export const saveChallengeFormat = (format: ChallengeFormat): void => {
+  try {
+    localStorage.setItem(CHALLENGE_FORMAT_STORAGE_KEY, JSON.stringify(format));
+  } catch (error) {
+    log.warn('Could not save the challenge format:', error);
+  }
+};
+
+const LAYOUT_STORAGE_KEY = 'realorai:layout';
+// Until the player picks a layout, narrow screens get one image at a time
+const NARROW_SCREEN_QUERY = '(max-width: 767px)';
+
+/**
+ * The layout chosen on this device. Resizing the window never changes it mid-round.
+ */
+export const loadLayout = (): GameLayout => {
+  try {
+    const stored = localStorage.getItem(LAYOUT_STORAGE_KEY);
+    if (stored === 'pairs' || stored === 'single') return stored;
+    return window.matchMedia(NARROW_SCREEN_QUERY).matches ? 'single' : 'pairs';
+  } catch {
+    return 'pairs';
+  }
+};
+
+export const saveLayout = (layout: GameLayout): void => {
+  try {
+    localStorage.setItem(LAYOUT_STORAGE_KEY, layout);
+  } catch (error) {
+    log.warn('Could not save the layout:', error);
+  }
+};
+
+const CONFIDENCE_STORAGE_KEY = 'realorai:confidence';
+
+/**
+ * Whether guesses ask for a confidence level. Off unless turned on in the setup screen.
+ */
+export const loadConfidenceEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(CONFIDENCE_STORAGE_KEY) === 'on';
+  } catch {
+    return false;
+  }
+};
+
+export const saveConfidenceEnabled = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(CONFIDENCE_STORAGE_KEY, enabled ? 'on' : 'off');
+  } catch (error) {
+    log.warn('Could not save the confidence setting:', error);
+  }
+};
+
+export const saveRulesPreset = (preset: RulesPresetId): void => {
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, preset);
+  } catch (error) {
+    log.warn('Could not save the rules preset:', error);
+  }
+};
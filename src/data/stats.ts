@@ -0,0 +1,62 @@
+import { FilterCategory, RoundRecord } from '../types';
+
+// Daily rounds always draw from every category, and blitz rounds are played against
+// the clock, so each gets a group of its own
+export type StatsGroup = FilterCategory | 'daily' | 'blitz';
+
+export interface GroupStats {
+  group: StatsGroup;
+  rounds: number;
+  score: number;
+  attempts: number;
+  accuracy: number; // 0-100, rounded
+  bestStreak: number;
+}
+
+export interface TrendPoint {
+  roundId: string;
+  finishedAt: number;
+  accuracy: number; // 0-100, rounded
+}
+
+const STATS_GROUP_ORDER: StatsGroup[] = ['all', 'people', 'nature', 'city', 'interior', 'daily', 'blitz'];
+
+const toAccuracy = (score: number, attempts: number): number =>
+  attempts > 0 ? Math.round((score / attempts) * 100) : 0;
+
+const summarize = (group: StatsGroup, rounds: RoundRecord[]): GroupStats => {
+  const score = rounds.reduce((sum, round) => sum + round.score, 0);
+  const attempts = rounds.reduce((sum, round) => sum + round.totalAttempts, 0);
+  return {
+    group,
+    rounds: rounds.length,
+    score,
+    attempts,
+    accuracy: toAccuracy(score, attempts),
+    bestStreak: rounds.reduce((best, round) => Math.max(best, round.bestStreak), 0),
+  };
+};
+
+export const getRoundGroup = (round: RoundRecord): StatsGroup =>
+  round.mode === 'classic' ? round.category : round.mode;
+
+/**
+ * Lifetime totals, overall and per group. Groups without rounds are left out.
+ */
+export const summarizeRounds = (rounds: RoundRecord[]): { overall: GroupStats; byGroup: GroupStats[] } => {
+  const byGroup = STATS_GROUP_ORDER
+    .map(group => summarize(group, rounds.filter(round => getRoundGroup(round) === group)))
+    .filter(stats => stats.rounds > 0);
+
+  return { overall: summarize('all', rounds), byGroup };
+};
+
+/**
+ * Accuracy of the last `count` rounds, oldest first.
+ */
+export const getAccuracyTrend = (rounds: RoundRecord[], count: number): TrendPoint[] =>
+  rounds.slice(-count).map(round => ({
+    roundId: round.id,
+    finishedAt: round.finishedAt,
+    accuracy: toAccuracy(round.score, round.totalAttempts),
+  }));
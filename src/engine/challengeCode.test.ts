@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { encodeChallengeCode, judgeChallenge, MAX_CHALLENGE_GUESSES, parseChallengeCode } from './challengeCode';
+import { loadFixtureCatalog } from '../test/fixtures';
+
+const SEED_CODE = 'k3f9x2ab.2a.people.01234';
+
+describe('challenge codes', () => {
+  beforeAll(async () => {
+    await loadFixtureCatalog(['people'], 4);
+  });
+
+  it('packs the results into a short, URL-safe code and reads them back', () => {
+    const results = [true, false, true, true, false, false, false, true, true, true];
+    const code = encodeChallengeCode({ seedCode: SEED_CODE, results })!;
+
+    expect(code).toBe(`${SEED_CODE}~10~d83`);
+    expect(encodeURIComponent(code)).toBe(code);
+    expect(parseChallengeCode(code)).toEqual({
+      replay: expect.objectContaining({ seed: 'k3f9x2ab', filter: 'people', picks: [0, 1, 2, 3, 4] }),
+      challenge: { seedCode: SEED_CODE, results },
+    });
+  });
+
+  it('replays a bare seed code with nothing to compare', () => {
+    expect(parseChallengeCode(SEED_CODE)).toEqual({ replay: expect.objectContaining({ seed: 'k3f9x2ab' }), challenge: null });
+  });
+
+  it('only offers rounds with a sensible number of guesses', () => {
+    expect(encodeChallengeCode({ seedCode: SEED_CODE, results: [] })).toBeNull();
+    expect(encodeChallengeCode({ seedCode: SEED_CODE, results: Array(MAX_CHALLENGE_GUESSES + 1).fill(true) })).toBeNull();
+  });
+
+  it('rejects tampered or truncated codes', () => {
+    expect(parseChallengeCode(`${SEED_CODE}~10`)).toBeNull();
+    expect(parseChallengeCode(`${SEED_CODE}~10~d8`)).toBeNull();
+    expect(parseChallengeCode(`${SEED_CODE}~10~d8z`)).toBeNull();
+    expect(parseChallengeCode(`${SEED_CODE}~0~`)).toBeNull();
+    expect(parseChallengeCode(`${SEED_CODE}~1e1~d83`)).toBeNull();
+    expect(parseChallengeCode('nope~10~d83')).toBeNull();
+  });
+
+  it('compares by right guesses', () => {
+    const challenge = { seedCode: SEED_CODE, results: [true, false, true] };
+
+    expect(judgeChallenge(challenge, [true, true, true])).toBe('won');
+    expect(judgeChallenge(challenge, [false, true, true])).toBe('tied');
+    expect(judgeChallenge(challenge, [false, false, true])).toBe('lost');
+  });
+});
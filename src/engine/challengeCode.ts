@@ -0,0 +1,71 @@
+import { parseRoundSeed, RoundSeed } from './roundSeed';
+
+// A challenge code lets a friend play the images of a finished round and compare scores:
+//   k3f9x2ab.2a.people.0413~10~2f5   seed code, number of guesses, which ones were right (hex bits)
+// It only says how the challenger did, never which images are AI, so it is safe to post anywhere.
+
+export interface FriendChallenge {
+  seedCode: string;
+  results: boolean[]; // The challenger's outcome per guess, in order
+}
+
+export interface ParsedChallenge {
+  replay: RoundSeed;
+  challenge: FriendChallenge | null; // Null for a bare seed code: the same images, nothing to compare
+}
+
+export type ChallengeVerdict = 'won' | 'lost' | 'tied';
+
+// Keeps links comfortably short; the seed code grows by one pick per guess too
+export const MAX_CHALLENGE_GUESSES = 100;
+
+const SEPARATOR = '~';
+const COUNT_PATTERN = /^\d+$/;
+const RESULTS_PATTERN = /^[0-9a-f]*$/;
+
+const packResults = (results: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < results.length; i += 4) {
+    const nibble = results.slice(i, i + 4).reduce((bits, isCorrect, bit) => (isCorrect ? bits | (1 << bit) : bits), 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+const unpackResults = (hex: string, count: number): boolean[] | null => {
+  if (hex.length !== Math.ceil(count / 4) || !RESULTS_PATTERN.test(hex)) return null;
+  return Array.from({ length: count }, (_, i) => ((parseInt(hex[i >> 2], 16) >> (i & 3)) & 1) === 1);
+};
+
+/**
+ * Returns null for rounds that can't be offered as a challenge: nothing played, or too long.
+ */
+export const encodeChallengeCode = ({ seedCode, results }: FriendChallenge): string | null => {
+  if (results.length === 0 || results.length > MAX_CHALLENGE_GUESSES) return null;
+  return [seedCode, results.length, packResults(results)].join(SEPARATOR);
+};
+
+/**
+ * Reads a challenge code, or a bare seed code. Returns null if either part is malformed.
+ */
+export const parseChallengeCode = (code: string): ParsedChallenge | null => {
+  const [seedCode, countPart, resultsPart, ...rest] = code.trim().split(SEPARATOR);
+  const replay = parseRoundSeed(seedCode);
+  if (!replay || rest.length > 0) return null;
+  if (countPart === undefined) return { replay, challenge: null };
+
+  const count = Number(countPart);
+  if (!COUNT_PATTERN.test(countPart) || count < 1 || count > MAX_CHALLENGE_GUESSES) return null;
+  const results = unpackResults(resultsPart ?? '', count);
+  return results ? { replay, challenge: { seedCode, results } } : null;
+};
+
+export const countCorrect = (results: boolean[]): number => results.filter(Boolean).length;
+
+/**
+ * How the player did against the challenger, by number of right guesses.
+ */
+export const judgeChallenge = (challenge: FriendChallenge, results: boolean[]): ChallengeVerdict => {
+  const difference = countCorrect(results) - countCorrect(challenge.results);
+  return difference > 0 ? 'won' : difference < 0 ? 'lost' : 'tied';
+};
@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { answerRound, EngineConfig, isCorrectGuess, nextRound, peekUpcomingRounds, Round, startGame } from './gameEngine';
+import { getFilteredImages, isAIImage, PAIR_FORMAT } from '../data/images';
+import { buildDailyChallenge } from '../data/daily';
+import { recordRatedGuess } from '../data/ratings';
+import { createSeededRandom } from '../utils/random';
+import { loadFixtureCatalog } from '../test/fixtures';
+
+const config = (overrides: Partial<EngineConfig> = {}): EngineConfig => ({
+  layout: 'pairs',
+  filter: 'people',
+  format: PAIR_FORMAT,
+  uniqueDisplayTarget: 50,
+  seed: 'test',
+  adaptive: true,
+  ...overrides,
+});
+
+const ids = (round: Round | null) => round?.candidates.map(image => image.id) ?? [];
+
+describe('game engine', () => {
+  beforeEach(async () => {
+    await loadFixtureCatalog(['people', 'city'], 12);
+  });
+
+  describe('pairs layout', () => {
+    it('deals one image of the target kind among the others, all from one category', () => {
+      const state = startGame(config({ format: { size: 4, target: 'real' }, seed: '1' }));
+
+      expect(state.round?.layout).toBe('pairs');
+      expect(state.round?.candidates).toHaveLength(4);
+      expect(state.round?.candidates.filter(image => !isAIImage(image))).toHaveLength(1);
+      expect(new Set(state.round?.candidates.map(image => image.category))).toEqual(new Set(['people']));
+    });
+
+    it('does not repeat recently shown images while the pool allows it', () => {
+      let state = startGame(config({ seed: '7' }));
+      const shown = [ids(state.round)];
+      // Twelve of each kind: six pairs can all be fresh
+      for (let i = 0; i < 5; i++) {
+        state = nextRound(state);
+        shown.push(ids(state.round));
+      }
+
+      const all = shown.flat();
+      expect(new Set(all).size).toBe(all.length);
+      expect(state.recentIds.slice(0, 2)).toEqual(shown[5]);
+    });
+
+    it('records which adaptive pick it kept', () => {
+      let state = startGame(config({ seed: '3' }));
+      state = nextRound(nextRound(state));
+
+      expect(state.picks).toHaveLength(3);
+      expect(state.picks.every(pick => pick >= 0 && pick < 8)).toBe(true);
+    });
+
+    it('peeks ahead at the deals the next guesses will get, reading the ratings once per round', () => {
+      const state = startGame(config({ seed: '5' }));
+      const getItem = vi.spyOn(localStorage, 'getItem');
+      const upcoming = peekUpcomingRounds(state, 4).map(images => images.map(image => image.id));
+      expect(getItem).not.toHaveBeenCalled();
+      getItem.mockRestore();
+
+      let next = state;
+      for (const expected of upcoming) {
+        const target = next.round!.candidates.find(image => isAIImage(image))!;
+        recordRatedGuess(answerRound(next.round!, { chosenImageId: target.id, guess: 'ai', responseTimeMs: 900, answeredAt: 1 })!);
+        next = nextRound(next);
+        expect(ids(next.round)).toEqual(expected);
+      }
+    });
+
+    it('reports an error when the category cannot fill a challenge', () => {
+      const state = startGame(config({ format: { size: 6, target: 'ai' }, filter: 'nature' }));
+
+      expect(state.round).toBeNull();
+      expect(state.error).toBe('Error fetching image data.');
+    });
+  });
+
+  describe('single layout', () => {
+    it('deals the whole deck once before reshuffling', () => {
+      let state = startGame(config({ layout: 'single', seed: '5' }));
+      const deckSize = state.deck.length;
+      const shown = [ids(state.round)[0]];
+      for (let i = 1; i < deckSize; i++) {
+        state = nextRound(state);
+        shown.push(ids(state.round)[0]);
+      }
+
+      expect(deckSize).toBe(24);
+      expect(new Set(shown).size).toBe(deckSize);
+
+      // Running out reshuffles without resetting the count of images shown
+      state = nextRound(state);
+      expect(state.deckIndex).toBe(0);
+      expect(state.uniqueShown).toBe(deckSize);
+    });
+
+    it('reshuffles and restarts the count after uniqueDisplayTarget images', () => {
+      let state = startGame(config({ layout: 'single', uniqueDisplayTarget: 3, seed: '9' }));
+      state = nextRound(nextRound(state));
+      expect(state.uniqueShown).toBe(2);
+      expect(state.deckIndex).toBe(2);
+
+      state = nextRound(state);
+      expect(state.uniqueShown).toBe(0);
+      expect(state.deckIndex).toBe(0);
+    });
+
+    it('reports an error for a category without images', () => {
+      const state = startGame(config({ layout: 'single', filter: 'nature' }));
+
+      expect(state.round).toBeNull();
+      expect(state.error).toBe('No images available for the selected category.');
+    });
+  });
+
+  describe('fixed sequences', () => {
+    it('deals the sequence in order, then nothing', () => {
+      const [a, b, c] = getFilteredImages('people', createSeededRandom(2));
+      let state = startGame(config({ layout: 'single', sequence: [[a], [b]] }));
+      expect(ids(state.round)).toEqual([a.id]);
+
+      state = nextRound(state);
+      expect(ids(state.round)).toEqual([b.id]);
+      expect(ids(state.round)).not.toContain(c.id);
+
+      state = nextRound(state);
+      expect(state.round).toBeNull();
+    });
+
+    it('peeks at what comes next without dealing it', () => {
+      const images = getFilteredImages('people', createSeededRandom(2));
+      const state = startGame(config({ layout: 'single', sequence: images.slice(0, 3).map(image => [image]) }));
+
+      expect(peekUpcomingRounds(state, 5).map(deal => deal.map(image => image.id))).toEqual([[images[1].id], [images[2].id]]);
+      expect(ids(state.round)).toEqual([images[0].id]);
+      expect(ids(nextRound(state).round)).toEqual([images[1].id]);
+    });
+  });
+
+  describe('seeds', () => {
+    const play = (start: EngineConfig, rounds: number) => {
+      let state = startGame(start);
+      const dealt = [ids(state.round)];
+      for (let i = 1; i < rounds; i++) {
+        state = nextRound(state);
+        dealt.push(ids(state.round));
+      }
+      return { state, dealt };
+    };
+
+    it('deals the same images again from the same seed', () => {
+      expect(play(config({ seed: 'abc' }), 6).dealt).toEqual(play(config({ seed: 'abc' }), 6).dealt);
+      expect(play(config({ seed: 'abc' }), 6).dealt).not.toEqual(play(config({ seed: 'abd' }), 6).dealt);
+      expect(play(config({ layout: 'single', seed: 'abc' }), 30).dealt)
+        .toEqual(play(config({ layout: 'single', seed: 'abc' }), 30).dealt);
+    });
+
+    it('replays adaptive rounds from the recorded picks, whatever the ratings', () => {
+      const original = play(config({ seed: 'abc' }), 6);
+      const picks = original.state.picks.map(pick => (pick + 1) % 8);
+      const forced = play(config({ seed: 'abc', picks }), 6);
+
+      expect(forced.state.picks).toEqual(picks);
+      expect(forced.dealt).not.toEqual(original.dealt);
+      expect(play(config({ seed: 'abc', picks }), 6).dealt).toEqual(forced.dealt);
+    });
+
+    it('replays the daily from its seed', () => {
+      for (const layout of ['pairs', 'single'] as const) {
+        const daily = buildDailyChallenge(layout, '2026-10-19');
+        const replay = play(config({ layout, filter: 'all', seed: daily.seed, adaptive: false }), daily.rounds.length);
+
+        expect(replay.dealt).toEqual(daily.rounds.map(images => images.map(image => image.id)));
+      }
+    });
+  });
+
+  describe('answerRound', () => {
+    it('marks a pairs pick right when the chosen image is the target', () => {
+      const { round } = startGame(config({ format: { size: 3, target: 'ai' }, seed: '4' }));
+      const odd = round!.candidates.find(image => isAIImage(image))!;
+      const other = round!.candidates.find(image => !isAIImage(image))!;
+      const answer = { guess: 'ai' as const, responseTimeMs: 1200, answeredAt: 1000 };
+
+      expect(answerRound(round!, { ...answer, chosenImageId: odd.id })).toMatchObject({
+        imageIds: ids(round),
+        chosenImageId: odd.id,
+        isCorrect: true,
+        layout: 'pairs',
+        responseTimeMs: 1200,
+      });
+      expect(answerRound(round!, { ...answer, chosenImageId: other.id })?.isCorrect).toBe(false);
+    });
+
+    it('judges a single image by what the player called it', () => {
+      const { round } = startGame(config({ layout: 'single' }));
+      const image = round!.candidates[0];
+      const truth = isAIImage(image) ? 'ai' : 'real';
+
+      expect(isCorrectGuess(image, truth)).toBe(true);
+      expect(answerRound(round!, { chosenImageId: image.id, guess: truth, responseTimeMs: 0, answeredAt: 0 })?.isCorrect)
+        .toBe(true);
+    });
+
+    it('ignores picks of images that are not on screen', () => {
+      const { round } = startGame(config());
+
+      expect(answerRound(round!, { chosenImageId: 'elsewhere', guess: 'ai', responseTimeMs: 0, answeredAt: 0 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { ChallengeFormat, ChallengeTarget, FilterCategory, GameLayout, GuessRecord, Image, RatingState } from '../types';
+import { availableCategories, getFilteredImages, isAIImage, pickChallenge, shuffleArray } from '../data/images';
+import { loadRatings, pickAdaptiveChallenge } from '../data/ratings';
+import { createInitialRatings } from '../storage/schema';
+import { drawFrom, seedFromString } from '../utils/random';
+import { createLogger } from '../utils/logger';
+
+// The game engine deals what the player sees next and judges their answers, for
+// both layouts. It is plain TypeScript with no React, so any UI can drive it.
+// Score, streaks and the round log stay in the game state reducer.
+// Every pick draws from one stream seeded by config.seed, so a round of play can be
+// replayed exactly from its seed.
+
+const log = createLogger('engine');
+
+const RECENT_HISTORY_LENGTH = 50; // Images kept out of the next few random pairs
+
+// What is on screen for one guess
+export interface Round {
+  layout: GameLayout;
+  candidates: Image[]; // In display order; exactly one in the single layout
+  target: ChallengeTarget; // Pairs layout: what the player looks for among the candidates
+}
+
+export interface EngineConfig {
+  layout: GameLayout;
+  filter: FilterCategory;
+  format: ChallengeFormat; // Pairs layout only
+  uniqueDisplayTarget: number; // Single layout reshuffles after this many images
+  seed: string;
+  adaptive: boolean; // Pairs layout: pick challenges to suit the player's rating
+  picks?: number[]; // Adaptive picks to make again, in order, when replaying someone else's round
+  sequence?: Image[][]; // Fixed rounds to deal in order, e.g. the daily; random otherwise
+}
+
+export interface EngineState {
+  config: EngineConfig;
+  round: Round | null; // Null before the first deal, on error, or once a sequence runs out
+  dealt: number; // Rounds dealt so far, the current one included
+  deck: Image[]; // Single layout: the shuffled images, dealt one at a time
+  deckIndex: number;
+  uniqueShown: number;
+  recentIds: string[]; // Pairs layout: kept out of the next picks
+  rngState: number; // Where the seeded stream is; plain data so re-running a deal repeats it
+  picks: number[]; // Adaptive picks made so far, for the seed code
+  ratings: RatingState | null; // What adaptive picks suit, read on the first pick that needs them
+  error: string | null;
+}
+
+export interface Answer {
+  chosenImageId: string;
+  guess: 'real' | 'ai'; // What the player says the chosen image is; the round's target in the pairs layout
+  responseTimeMs: number;
+  answeredAt: number; // Unix time in ms
+  confidence?: number;
+}
+
+const dealFromSequence = (state: EngineState): EngineState => {
+  const candidates = state.config.sequence?.[state.dealt];
+  return {
+    ...state,
+    // The daily is always pairs with an AI target, or single images
+    round: candidates ? { layout: state.config.layout, candidates, target: 'ai' } : null,
+    dealt: state.dealt + 1,
+  };
+};
+
+const dealPairs = (state: EngineState): EngineState => {
+  if (availableCategories.length === 0) {
+    log.error('No categories with images found in images/');
+    return { ...state, round: null, error: 'No image categories available. Add images to images/' };
+  }
+
+  // Classic play adapts to the player's rating; replays of fixed rounds use pickChallenge directly
+  const { filter, format, adaptive, picks } = state.config;
+  const forcedPick = picks?.[state.picks.length];
+  // Ratings are read once per round of play and kept, so peeking ahead deals what nextRound
+  // will even after the next guess moves them. A recorded pick doesn't depend on them, so
+  // replays (also on the leaderboard server) never read them.
+  const ratings = adaptive && forcedPick === undefined ? state.ratings ?? loadRatings() : state.ratings;
+  const { value: picked, state: rngState } = drawFrom(state.rngState, random => (adaptive
+    ? pickAdaptiveChallenge(filter, format, state.recentIds, ratings ?? createInitialRatings(), random, forcedPick)
+    : { challenge: pickChallenge(filter, format, state.recentIds, random), pick: null }));
+  const challenge = picked?.challenge;
+  if (!challenge) {
+    log.error('Data mismatch: Not enough images for filter:', filter, 'and format:', format);
+    return { ...state, round: null, error: 'Error fetching image data.' };
+  }
+
+  return {
+    ...state,
+    round: { layout: 'pairs', candidates: challenge.candidates, target: challenge.target },
+    dealt: state.dealt + 1,
+    recentIds: [...challenge.candidates.map(image => image.id), ...state.recentIds].slice(0, RECENT_HISTORY_LENGTH),
+    rngState,
+    picks: picked.pick === null ? state.picks : [...state.picks, picked.pick],
+    ratings,
+    error: null,
+  };
+};
+
+const dealSingle = (state: EngineState): EngineState => {
+  let { deck, rngState } = state;
+  let deckIndex = state.deckIndex + 1;
+  let uniqueShown = state.uniqueShown + 1;
+
+  // Reshuffle once enough distinct images have been shown, or when the deck runs out
+  if (uniqueShown >= state.config.uniqueDisplayTarget || deckIndex >= deck.length) {
+    if (deck.length === 0) return { ...state, round: null };
+    ({ value: deck, state: rngState } = drawFrom(rngState, random => shuffleArray(deck, random)));
+    deckIndex = 0;
+    if (uniqueShown >= state.config.uniqueDisplayTarget) uniqueShown = 0;
+  }
+
+  return {
+    ...state,
+    round: { layout: 'single', candidates: [deck[deckIndex]], target: 'ai' },
+    dealt: state.dealt + 1,
+    deck,
+    deckIndex,
+    uniqueShown,
+    rngState,
+  };
+};
+
+/**
+ * Starts a round of play and deals its first images. What gets dealt depends only on the config,
+ * so the same seed deals the same images.
+ */
+export const startGame = (config: EngineConfig): EngineState => {
+  const initial: EngineState = {
+    config,
+    round: null,
+    dealt: 0,
+    deck: [],
+    deckIndex: 0,
+    uniqueShown: 0,
+    recentIds: [],
+    rngState: seedFromString(config.seed),
+    picks: [],
+    ratings: null,
+    error: null,
+  };
+
+  if (config.sequence) return dealFromSequence(initial);
+  if (config.layout === 'pairs') return dealPairs(initial);
+
+  const { value: deck, state: rngState } = drawFrom(initial.rngState, random => getFilteredImages(config.filter, random));
+  if (deck.length === 0) {
+    return { ...initial, error: 'No images available for the selected category.' };
+  }
+  return { ...initial, deck, rngState, round: { layout: 'single', candidates: [deck[0]], target: 'ai' }, dealt: 1 };
+};
+
+/**
+ * Deals the next images after an answer.
+ */
+export const nextRound = (state: EngineState): EngineState => {
+  if (state.config.sequence) return dealFromSequence(state);
+  return state.config.layout === 'pairs' ? dealPairs(state) : dealSingle(state);
+};
+
+/**
+ * The images of the next few deals, one list per deal, without dealing them. Adaptive picks
+ * follow the ratings as they are now, so later guesses can still change what comes.
+ */
+export const peekUpcomingRounds = (state: EngineState, rounds: number): Image[][] => {
+  const upcoming: Image[][] = [];
+  let next = state;
+  for (let i = 0; i < rounds; i++) {
+    next = nextRound(next);
+    if (!next.round) break;
+    upcoming.push(next.round.candidates);
+  }
+  return upcoming;
+};
+
+/**
+ * A guess is right when the chosen image really is what the player said it is.
+ * That covers both layouts: "this one is AI" in single, "this one is the target" in pairs.
+ */
+export const isCorrectGuess = (image: Image, guess: 'real' | 'ai'): boolean => isAIImage(image) === (guess === 'ai');
+
+/**
+ * Judges an answer to the current round. Returns null if the chosen image isn't on screen.
+ */
+export const answerRound = (round: Round, answer: Answer): GuessRecord | null => {
+  const chosen = round.candidates.find(image => image.id === answer.chosenImageId);
+  if (!chosen) return null;
+  return {
+    imageIds: round.candidates.map(image => image.id),
+    chosenImageId: chosen.id,
+    guess: answer.guess,
+    isCorrect: isCorrectGuess(chosen, answer.guess),
+    responseTimeMs: answer.responseTimeMs,
+    layout: round.layout,
+    answeredAt: answer.answeredAt,
+    confidence: answer.confidence,
+  };
+};
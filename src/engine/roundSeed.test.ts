@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { nextRound, startGame } from './gameEngine';
+import { buildSeedUrl, encodeRoundSeed, parseRoundSeed, readSeedParam } from './roundSeed';
+import { PAIR_FORMAT } from '../data/images';
+import { loadFixtureCatalog } from '../test/fixtures';
+
+describe('round seeds', () => {
+  beforeEach(async () => {
+    await loadFixtureCatalog(['people', 'city'], 12);
+  });
+
+  it('encodes everything needed to deal the round again', () => {
+    const state = nextRound(startGame({
+      layout: 'pairs',
+      filter: 'city',
+      format: { size: 3, target: 'real' },
+      uniqueDisplayTarget: 50,
+      seed: 'k3f9x2ab',
+      adaptive: true,
+    }));
+    const code = encodeRoundSeed(state);
+
+    expect(code).toBe(`k3f9x2ab.3r.city.${state.picks.join('')}`);
+    expect(parseRoundSeed(code)).toEqual({
+      seed: 'k3f9x2ab',
+      layout: 'pairs',
+      filter: 'city',
+      format: { size: 3, target: 'real' },
+      adaptive: true,
+      picks: state.picks,
+    });
+  });
+
+  it('reads single-layout and daily codes', () => {
+    expect(parseRoundSeed('k3f9x2ab.s.all')).toEqual({
+      seed: 'k3f9x2ab',
+      layout: 'single',
+      filter: 'all',
+      format: PAIR_FORMAT,
+      adaptive: false,
+    });
+    expect(parseRoundSeed('daily:2026-10-19:pairs.2a.all')).toMatchObject({ seed: 'daily:2026-10-19:pairs', adaptive: false });
+  });
+
+  it('rejects malformed codes and categories the catalog lacks', () => {
+    expect(parseRoundSeed('')).toBeNull();
+    expect(parseRoundSeed('abc.9a.people')).toBeNull();
+    expect(parseRoundSeed('abc.2x.people')).toBeNull();
+    expect(parseRoundSeed('abc.2a.nature')).toBeNull();
+    expect(parseRoundSeed('abc.s.people.01')).toBeNull();
+    expect(parseRoundSeed('abc.2a.people.0x')).toBeNull();
+    expect(parseRoundSeed('abc.2a.people.01.extra')).toBeNull();
+  });
+
+  it('round-trips through a link', () => {
+    const url = buildSeedUrl('k3f9x2ab.2a.people.01', 'https://example.com/play?mode=daily#top');
+
+    expect(url).toBe('https://example.com/play?seed=k3f9x2ab.2a.people.01');
+    expect(readSeedParam(new URL(url).search)?.picks).toEqual([0, 1]);
+    expect(readSeedParam('?mode=daily')).toBeNull();
+  });
+});
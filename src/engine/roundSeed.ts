@@ -0,0 +1,70 @@
+import { Category, ChallengeFormat, FilterCategory } from '../types';
+import { availableCategories, MAX_CHALLENGE_SIZE, MIN_CHALLENGE_SIZE, PAIR_FORMAT } from '../data/images';
+import { EngineConfig, EngineState } from './gameEngine';
+import { createLogger } from '../utils/logger';
+
+// A seed code is everything needed to deal a round of play again, dot-separated:
+//   k3f9x2ab.2a.people.0413   seed, format (size + a/r target, or s for single), category, adaptive picks
+// Codes without the picks part deal with pickChallenge directly, as the daily does.
+// Rounds record their code, and ?seed=<code> replays one, e.g. for a bug report.
+
+export const SEED_PARAM = 'seed';
+
+export type RoundSeed = Pick<EngineConfig, 'seed' | 'layout' | 'filter' | 'format' | 'adaptive' | 'picks'>;
+
+const log = createLogger('seed');
+
+const SEED_PATTERN = /^[\w:-]+$/;
+const FORMAT_PATTERN = /^(\d)([ar])$/;
+const PICKS_PATTERN = /^\d*$/;
+
+export const encodeRoundSeed = ({ config, picks }: EngineState): string => {
+  const { seed, layout, filter, format, adaptive } = config;
+  const formatPart = layout === 'single' ? 's' : `${format.size}${format.target === 'ai' ? 'a' : 'r'}`;
+  const parts = [seed, formatPart, filter];
+  // The single layout never adapts, so it has no picks to record
+  if (adaptive && layout === 'pairs') parts.push(picks.join(''));
+  return parts.join('.');
+};
+
+/**
+ * Reads a seed code. Returns null if it is malformed or names a category this catalog doesn't have.
+ */
+export const parseRoundSeed = (code: string): RoundSeed | null => {
+  const [seed, formatPart, filterPart, picksPart, ...rest] = code.trim().split('.');
+  if (rest.length > 0 || !seed || !SEED_PATTERN.test(seed)) return null;
+  if (filterPart !== 'all' && !availableCategories.includes(filterPart as Category)) return null;
+  const filter = filterPart as FilterCategory;
+
+  if (formatPart === 's') {
+    return picksPart === undefined ? { seed, layout: 'single', filter, format: PAIR_FORMAT, adaptive: false } : null;
+  }
+
+  const match = FORMAT_PATTERN.exec(formatPart ?? '');
+  if (!match) return null;
+  const size = Number(match[1]);
+  if (size < MIN_CHALLENGE_SIZE || size > MAX_CHALLENGE_SIZE) return null;
+  const format: ChallengeFormat = { size, target: match[2] === 'a' ? 'ai' : 'real' };
+
+  if (picksPart === undefined) return { seed, layout: 'pairs', filter, format, adaptive: false };
+  if (!PICKS_PATTERN.test(picksPart)) return null;
+  return { seed, layout: 'pairs', filter, format, adaptive: true, picks: [...picksPart].map(Number) };
+};
+
+/**
+ * The seed code in the page URL, if any. Invalid codes are reported and ignored.
+ */
+export const readSeedParam = (search: string): RoundSeed | null => {
+  const code = new URLSearchParams(search).get(SEED_PARAM);
+  if (code === null) return null;
+  const parsed = parseRoundSeed(code);
+  if (!parsed) log.warn(`Ignoring invalid seed code: ${code}`);
+  return parsed;
+};
+
+export const buildSeedUrl = (code: string, base: string): string => {
+  const url = new URL(base);
+  url.search = new URLSearchParams({ [SEED_PARAM]: code }).toString();
+  url.hash = '';
+  return url.toString();
+};
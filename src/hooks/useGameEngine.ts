@@ -0,0 +1,25 @@
+import { useCallback, useState } from 'react';
+import { EngineConfig, EngineState, nextRound, startGame } from '../engine/gameEngine';
+
+/**
+ * React binding for the game engine: keeps its state and re-renders on every deal.
+ */
+export const useGameEngine = () => {
+  const [engine, setEngine] = useState<EngineState | null>(null);
+
+  const start = useCallback((config: EngineConfig) => {
+    // Nothing carries over from the last round, so a round depends only on its seed
+    setEngine(startGame(config));
+  }, []);
+
+  const advance = useCallback(() => {
+    setEngine(current => current && nextRound(current));
+  }, []);
+
+  return {
+    engine,
+    round: engine?.round ?? null,
+    start,
+    advance,
+  };
+};
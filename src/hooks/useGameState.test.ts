@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { gameReducer, initialState } from './useGameState';
+import { GameState, GuessRecord } from '../types';
+import { RULES_PRESETS } from '../data/rules';
+
+const start = initialState as GameState;
+
+const guess = (isCorrect: boolean, responseTimeMs = 1000): GuessRecord => ({
+  imageIds: ['a', 'b'],
+  chosenImageId: 'a',
+  guess: 'ai',
+  isCorrect,
+  responseTimeMs,
+  layout: 'pairs',
+  answeredAt: 0,
+});
+
+const play = (state: GameState, ...results: boolean[]): GameState =>
+  results.reduce((current, isCorrect) => gameReducer(
+    gameReducer(current, { type: 'SHOW_FEEDBACK', payload: guess(isCorrect) }),
+    { type: 'NEXT_PAIR' },
+  ), state);
+
+describe('gameReducer', () => {
+  it('scores a guess and shows feedback', () => {
+    const state = gameReducer(start, { type: 'SHOW_FEEDBACK', payload: guess(true) });
+
+    expect(state).toMatchObject({
+      score: 1,
+      totalAttempts: 1,
+      correctStreak: 1,
+      bestStreak: 1,
+      showFeedback: true,
+      isCorrect: true,
+      results: [true],
+    });
+    expect(state.guesses).toHaveLength(1);
+  });
+
+  it('breaks the streak on a wrong guess but keeps the best one', () => {
+    const state = play(start, true, true, true, false, true);
+
+    expect(state).toMatchObject({ score: 4, totalAttempts: 5, correctStreak: 1, bestStreak: 3 });
+    expect(state.results).toEqual([true, true, true, false, true]);
+  });
+
+  it('clears the answer before the next images', () => {
+    const answered = gameReducer(
+      gameReducer(start, { type: 'SELECT_IMAGE', payload: 'a' }),
+      { type: 'SHOW_FEEDBACK', payload: guess(false) },
+    );
+    const next = gameReducer(answered, { type: 'NEXT_PAIR' });
+
+    expect(next).toMatchObject({ selectedImageId: null, showFeedback: false, isCorrect: null, totalAttempts: 1 });
+  });
+
+  it('resets progress but keeps the player settings', () => {
+    const configured = gameReducer(
+      gameReducer(start, { type: 'SET_CATEGORY', payload: 'city' }),
+      { type: 'SET_RULES', payload: 'quick' },
+    );
+    const reset = gameReducer(play(configured, true, false), { type: 'RESET_GAME' });
+
+    expect(reset).toMatchObject({
+      score: 0,
+      totalAttempts: 0,
+      correctStreak: 0,
+      bestStreak: 0,
+      results: [],
+      guesses: [],
+      selectedCategory: 'city',
+      rulesPreset: 'quick',
+      rules: RULES_PRESETS.quick.rules,
+    });
+  });
+
+  it('restores a finished daily straight to its summary', () => {
+    const state = gameReducer(play(start, true), {
+      type: 'RESTORE_DAILY_RESULT',
+      payload: {
+        dateKey: '2026-10-19',
+        layout: 'single',
+        score: 7,
+        totalAttempts: 10,
+        correctStreak: 2,
+        bestStreak: 4,
+        results: [true, false],
+      },
+    });
+
+    expect(state).toMatchObject({ score: 7, totalAttempts: 10, bestStreak: 4, showSummary: true, guesses: [] });
+  });
+
+  it('keeps the same state when the summary is already shown', () => {
+    const shown = gameReducer(play(start, true), { type: 'SHOW_SUMMARY' });
+
+    expect(shown.showSummary).toBe(true);
+    expect(gameReducer(shown, { type: 'SHOW_SUMMARY' })).toBe(shown);
+  });
+
+  it('resumes an unfinished daily with its guesses so far', () => {
+    const guesses = [guess(true), guess(false)];
+    const state = gameReducer(start, {
+      type: 'RESTORE_DAILY_RESULT',
+      payload: {
+        dateKey: '2026-10-19',
+        layout: 'pairs',
+        score: 1,
+        totalAttempts: 2,
+        correctStreak: 0,
+        bestStreak: 1,
+        results: [true, false],
+        guesses,
+        inProgress: true,
+      },
+    });
+
+    expect(state).toMatchObject({ score: 1, totalAttempts: 2, showSummary: false, showFeedback: false, guesses });
+  });
+
+  describe('blitz', () => {
+    const blitzing = gameReducer(start, { type: 'START_BLITZ', payload: 10_000 });
+
+    it('counts down from the end time', () => {
+      const state = gameReducer(blitzing, { type: 'BLITZ_TICK', payload: 25_000 });
+
+      expect(state.blitz).toMatchObject({ endsAt: 70_000, timeLeftMs: 45_000, expired: false });
+    });
+
+    it('adds speed-weighted points and never drops below zero', () => {
+      const fast = gameReducer(blitzing, { type: 'SHOW_FEEDBACK', payload: guess(true, 0) });
+      const wrong = gameReducer(blitzing, { type: 'SHOW_FEEDBACK', payload: guess(false) });
+
+      expect(fast.blitz?.points).toBe(200);
+      expect(wrong.blitz?.points).toBe(0);
+    });
+
+    it('ignores answers that land after the clock ran out', () => {
+      const expired = gameReducer(blitzing, { type: 'BLITZ_EXPIRE' });
+
+      expect(gameReducer(expired, { type: 'SHOW_FEEDBACK', payload: guess(true) })).toBe(expired);
+      expect(expired.blitz).toMatchObject({ timeLeftMs: 0, expired: true });
+    });
+  });
+});
@@ -1,18 +1,46 @@
-import { useReducer } from 'react';
-import { GameState, GameAction, FilterCategory } from '../types';
+import { useCallback, useReducer, useRef } from 'react';
+import { GameState, GameAction, FilterCategory, GameMode, DailyResult, GuessRecord, RulesPresetId, ChallengeFormat, GameLayout } from '../types';
+import { createRoundId, recordRound } from '../storage/profile';
+import { recordRatedGuess } from '../data/ratings';
+import { reportGuess } from '../crowd/client';
+import { track } from '../analytics/track';
+import {
+  DEFAULT_RULES_PRESET,
+  loadChallengeFormat,
+  loadConfidenceEnabled,
+  loadLayout,
+  loadRulesPreset,
+  RULES_PRESETS,
+  saveChallengeFormat,
+  saveConfidenceEnabled,
+  saveLayout,
+  saveRulesPreset,
+} from '../data/rules';
+import { PAIR_FORMAT } from '../data/images';
+import { BLITZ_DURATION_MS, scoreBlitzGuess } from '../data/blitz';
 
-const initialState: Omit<GameState, 'currentCategory'> = {
+export const initialState: Omit<GameState, 'currentCategory'> = {
   score: 0,
   totalAttempts: 0,
   selectedImageId: null,
   isCorrect: null,
   showFeedback: false,
   correctStreak: 0,
+  bestStreak: 0,
   selectedCategory: 'people',
   showSummary: false,
+  mode: 'classic',
+  rulesPreset: DEFAULT_RULES_PRESET,
+  rules: RULES_PRESETS[DEFAULT_RULES_PRESET].rules,
+  confidenceEnabled: false,
+  layout: 'pairs',
+  challengeFormat: PAIR_FORMAT,
+  blitz: null,
+  results: [],
+  guesses: [],
 };
 
-const gameReducer = (state: GameState, action: GameAction): GameState => {
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
   switch (action.type) {
     case 'SELECT_IMAGE':
       return {
@@ -20,15 +48,24 @@ const gameReducer = (state: GameState, action: GameAction): GameState => {
         selectedImageId: action.payload,
       };
     case 'SHOW_FEEDBACK': {
-      const isCorrect = action.payload;
+      // Answers that land after the blitz clock ran out don't count
+      if (state.blitz?.expired) return state;
+      const { isCorrect, responseTimeMs } = action.payload;
       const newStreak = isCorrect ? state.correctStreak + 1 : 0;
       return {
         ...state,
+        blitz: state.blitz && {
+          ...state.blitz,
+          points: Math.max(0, state.blitz.points + scoreBlitzGuess(isCorrect, responseTimeMs)),
+        },
         showFeedback: true,
         isCorrect: isCorrect,
         score: isCorrect ? state.score + 1 : state.score,
         totalAttempts: state.totalAttempts + 1,
         correctStreak: newStreak,
+        bestStreak: Math.max(state.bestStreak, newStreak),
+        results: [...state.results, isCorrect],
+        guesses: [...state.guesses, action.payload],
       };
     }
     case 'NEXT_PAIR':
@@ -48,14 +85,87 @@ const gameReducer = (state: GameState, action: GameAction): GameState => {
         isCorrect: null,
         showFeedback: false,
         correctStreak: 0,
+        bestStreak: 0,
         showSummary: false,
+        blitz: null,
+        results: [],
+        guesses: [],
       } as GameState;
     case 'SET_CATEGORY':
       return {
         ...state,
         selectedCategory: action.payload,
       };
+    case 'SET_MODE':
+      return {
+        ...state,
+        mode: action.payload,
+      };
+    case 'SET_RULES':
+      return {
+        ...state,
+        rulesPreset: action.payload,
+        rules: RULES_PRESETS[action.payload].rules,
+      };
+    case 'SET_CONFIDENCE_ENABLED':
+      return {
+        ...state,
+        confidenceEnabled: action.payload,
+      };
+    case 'SET_CHALLENGE_FORMAT':
+      return {
+        ...state,
+        challengeFormat: action.payload,
+      };
+    case 'SET_LAYOUT':
+      return {
+        ...state,
+        layout: action.payload,
+      };
+    case 'RESTORE_DAILY_RESULT':
+      // Today's daily has already been played: jump straight to its summary, or pick an
+      // unfinished attempt up where it stopped
+      return {
+        ...state,
+        score: action.payload.score,
+        totalAttempts: action.payload.totalAttempts,
+        correctStreak: action.payload.correctStreak,
+        bestStreak: action.payload.bestStreak,
+        results: action.payload.results,
+        guesses: action.payload.guesses ?? [],
+        selectedImageId: null,
+        isCorrect: null,
+        showFeedback: false,
+        showSummary: !action.payload.inProgress,
+      };
+    case 'START_BLITZ':
+      return {
+        ...state,
+        blitz: {
+          endsAt: action.payload + BLITZ_DURATION_MS,
+          timeLeftMs: BLITZ_DURATION_MS,
+          points: 0,
+          expired: false,
+        },
+      };
+    case 'BLITZ_TICK':
+      if (!state.blitz || state.blitz.expired) return state;
+      return {
+        ...state,
+        blitz: { ...state.blitz, timeLeftMs: Math.max(0, state.blitz.endsAt - action.payload) },
+      };
+    case 'BLITZ_EXPIRE':
+      if (!state.blitz) return state;
+      return {
+        ...state,
+        blitz: { ...state.blitz, timeLeftMs: 0, expired: true },
+        selectedImageId: null,
+        isCorrect: null,
+        showFeedback: false,
+      };
     case 'SHOW_SUMMARY':
+      // Same state when already shown, so asking twice doesn't re-render
+      if (state.showSummary) return state;
       return {
         ...state,
         showSummary: true,
@@ -71,14 +181,45 @@ const gameReducer = (state: GameState, action: GameAction): GameState => {
 };
 
 export const useGameState = () => {
-  const [state, dispatch] = useReducer(gameReducer, initialState as GameState);
+  const [state, dispatch] = useReducer(gameReducer, initialState as GameState, (initial) => {
+    const rulesPreset = loadRulesPreset();
+    return {
+      ...initial,
+      rulesPreset,
+      rules: RULES_PRESETS[rulesPreset].rules,
+      confidenceEnabled: loadConfidenceEnabled(),
+      layout: loadLayout(),
+      challengeFormat: loadChallengeFormat(),
+    };
+  });
+  // Each round is recorded once, however often the end-of-round check fires
+  const roundRecordedRef = useRef(false);
+  // finishRound runs from timers, so it reads the state through this rather than its render's copy
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
   const selectImage = (imageId: string) => {
     dispatch({ type: 'SELECT_IMAGE', payload: imageId });
   };
 
-  const showFeedback = (isCorrect: boolean) => {
-    dispatch({ type: 'SHOW_FEEDBACK', payload: isCorrect });
+  // Replays and challenge links deal images whose answers the player may already know, so
+  // their guesses stay out of the ratings and the crowd stats
+  const showFeedback = (guess: GuessRecord, { replay = false }: { replay?: boolean } = {}) => {
+    // The reducer drops answers that land after the blitz clock ran out; nothing else counts them either
+    if (state.blitz?.expired) return;
+    dispatch({ type: 'SHOW_FEEDBACK', payload: guess });
+    if (!replay) {
+      recordRatedGuess(guess);
+      reportGuess(guess);
+    }
+    track('guess_made', {
+      mode: state.mode,
+      category: state.mode === 'daily' ? 'all' : state.selectedCategory,
+      layout: guess.layout,
+      correct: guess.isCorrect,
+      responseTimeMs: guess.responseTimeMs,
+      candidates: guess.imageIds.length,
+    });
   };
 
   const nextPair = () => {
@@ -86,6 +227,7 @@ export const useGameState = () => {
   };
 
   const resetGame = () => {
+    roundRecordedRef.current = false;
     dispatch({ type: 'RESET_GAME' });
   };
 
@@ -93,10 +235,80 @@ export const useGameState = () => {
     dispatch({ type: 'SET_CATEGORY', payload: category });
   };
 
+  const setMode = (mode: GameMode) => {
+    dispatch({ type: 'SET_MODE', payload: mode });
+  };
+
+  const setRules = (preset: RulesPresetId) => {
+    saveRulesPreset(preset);
+    dispatch({ type: 'SET_RULES', payload: preset });
+  };
+
+  const setConfidenceEnabled = (enabled: boolean) => {
+    saveConfidenceEnabled(enabled);
+    dispatch({ type: 'SET_CONFIDENCE_ENABLED', payload: enabled });
+  };
+
+  const setChallengeFormat = (format: ChallengeFormat) => {
+    saveChallengeFormat(format);
+    dispatch({ type: 'SET_CHALLENGE_FORMAT', payload: format });
+  };
+
+  const setLayout = (layout: GameLayout) => {
+    saveLayout(layout);
+    dispatch({ type: 'SET_LAYOUT', payload: layout });
+  };
+
+  const restoreDailyResult = (result: DailyResult) => {
+    dispatch({ type: 'RESTORE_DAILY_RESULT', payload: result });
+  };
+
+  const startBlitz = () => {
+    dispatch({ type: 'START_BLITZ', payload: Date.now() });
+  };
+
+  const tickBlitz = () => {
+    dispatch({ type: 'BLITZ_TICK', payload: Date.now() });
+  };
+
+  const expireBlitz = () => {
+    dispatch({ type: 'BLITZ_EXPIRE' });
+  };
+
   const showSummary = () => {
     dispatch({ type: 'SHOW_SUMMARY' });
   };
 
+  // Saves the finished round to the player profile and shows the summary. Stable across
+  // renders, so effects can depend on it.
+  const finishRound = useCallback((seed?: string) => {
+    const current = stateRef.current;
+    if (!roundRecordedRef.current) {
+      roundRecordedRef.current = true;
+      const category = current.mode === 'daily' ? 'all' : current.selectedCategory;
+      recordRound({
+        id: createRoundId(),
+        mode: current.mode,
+        category,
+        score: current.score,
+        totalAttempts: current.totalAttempts,
+        bestStreak: current.bestStreak,
+        finishedAt: Date.now(),
+        guesses: current.guesses,
+        points: current.blitz?.points,
+        seed,
+      });
+      track('round_completed', {
+        mode: current.mode,
+        category,
+        score: current.blitz?.points ?? current.score,
+        attempts: current.totalAttempts,
+        bestStreak: current.bestStreak,
+      });
+    }
+    dispatch({ type: 'SHOW_SUMMARY' });
+  }, []);
+
   const hideSummary = () => {
     dispatch({ type: 'HIDE_SUMMARY' });
   };
@@ -108,7 +320,17 @@ export const useGameState = () => {
     nextPair,
     resetGame,
     setCategory,
+    setMode,
+    setRules,
+    setConfidenceEnabled,
+    setChallengeFormat,
+    setLayout,
+    restoreDailyResult,
+    startBlitz,
+    tickBlitz,
+    expireBlitz,
     showSummary,
+    finishRound,
     hideSummary,
   };
 };
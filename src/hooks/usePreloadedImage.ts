@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getImagePreloader, PreloadedImage } from '../data/preloadQueue';
+
+/**
+ * Where the preload queue is with an image: loading, ready with an object URL, or failed.
+ * Null when the image isn't queued, e.g. on review screens.
+ */
+export const usePreloadedImage = (src: string): PreloadedImage | null => {
+  const preloader = getImagePreloader();
+  return useSyncExternalStore(preloader.subscribe, () => preloader.lookup(src));
+};
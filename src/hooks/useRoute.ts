@@ -0,0 +1,21 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { NAVIGATE_EVENT, parseRoute, Route } from '../routing/routes';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+};
+
+const getPathname = () => window.location.pathname;
+
+/**
+ * The current route, updated on navigate() and on the browser's back and forward buttons.
+ */
+export const useRoute = (): Route => {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  return useMemo(() => parseRoute(pathname), [pathname]);
+};
@@ -0,0 +1,72 @@
+import { LeaderboardSubmission } from './verify';
+import { BoardQuery, createLeaderboardService, createMemoryStore, RankedEntry, SubmitResult } from './service';
+import { createLogger } from '../utils/logger';
+
+// How the game reaches a leaderboard. With VITE_LEADERBOARD_URL set it talks to the Node
+// server (pnpm server); without it, boards live in memory for this page, for offline and dev use.
+
+export interface LeaderboardClient {
+  submit(submission: LeaderboardSubmission): Promise<SubmitResult>;
+  getBoard(query: BoardQuery): Promise<RankedEntry[]>;
+}
+
+export const LEADERBOARD_API_PATH = '/api/leaderboard';
+
+const log = createLogger('leaderboard');
+
+export const createHttpLeaderboardClient = (baseUrl: string): LeaderboardClient => {
+  const apiUrl = `${baseUrl.replace(/\/$/, '')}${LEADERBOARD_API_PATH}`;
+  return {
+    submit: async submission => {
+      const response = await fetch(`${apiUrl}/rounds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submission),
+      });
+      // Rejected rounds come back as 422 with the problems listed
+      if (!response.ok && response.status !== 422) throw new Error(`Leaderboard submit failed: ${response.status}`);
+      return response.json() as Promise<SubmitResult>;
+    },
+    getBoard: async ({ mode, category, rules, period, limit }) => {
+      const params = new URLSearchParams({ mode, category, period });
+      if (rules !== null) params.set('rules', rules);
+      if (limit !== undefined) params.set('limit', String(limit));
+      const response = await fetch(`${apiUrl}?${params}`);
+      if (!response.ok) throw new Error(`Leaderboard request failed: ${response.status}`);
+      return response.json() as Promise<RankedEntry[]>;
+    },
+  };
+};
+
+export const createMemoryLeaderboardClient = (): LeaderboardClient => createLeaderboardService(createMemoryStore());
+
+let client: LeaderboardClient | null = null;
+
+export const getLeaderboardClient = (): LeaderboardClient => {
+  if (!client) {
+    const url = import.meta.env.VITE_LEADERBOARD_URL;
+    client = url ? createHttpLeaderboardClient(url) : createMemoryLeaderboardClient();
+  }
+  return client;
+};
+
+const NICKNAME_STORAGE_KEY = 'realorai:nickname';
+
+/**
+ * The nickname last used on this device, so the next submission is one click.
+ */
+export const loadNickname = (): string => {
+  try {
+    return localStorage.getItem(NICKNAME_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveNickname = (nickname: string): void => {
+  try {
+    localStorage.setItem(NICKNAME_STORAGE_KEY, nickname);
+  } catch (error) {
+    log.warn('Could not save the nickname:', error);
+  }
+};
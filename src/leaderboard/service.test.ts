@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLeaderboardService, createMemoryStore, getPeriodStart, LeaderboardEntry, rankEntries } from './service';
+import { LeaderboardSubmission, scoreGuesses, verifySubmission } from './verify';
+import { answerRound, EngineConfig, nextRound, startGame } from '../engine/gameEngine';
+import { encodeRoundSeed } from '../engine/roundSeed';
+import { isAIImage, PAIR_FORMAT } from '../data/images';
+import { GuessRecord } from '../types';
+import { loadFixtureCatalog } from '../test/fixtures';
+
+const config: EngineConfig = {
+  layout: 'pairs',
+  filter: 'people',
+  format: PAIR_FORMAT,
+  uniqueDisplayTarget: 50,
+  seed: 'board',
+  adaptive: true,
+};
+
+// Plays a round the honest way, getting the guesses right where `plan` says so
+const playRound = (
+  plan: boolean[],
+  overrides: Partial<LeaderboardSubmission> = {},
+  engineConfig: EngineConfig = config,
+): LeaderboardSubmission => {
+  let state = startGame(engineConfig);
+  const guesses: GuessRecord[] = [];
+  let clock = 10_000;
+  for (const [i, right] of plan.entries()) {
+    if (i > 0) state = nextRound(state);
+    const round = state.round!;
+    const chosen = round.candidates.find(image => isAIImage(image) === right)!;
+    clock += 2000;
+    guesses.push(answerRound(round, { chosenImageId: chosen.id, guess: 'ai', responseTimeMs: 1500, answeredAt: clock })!);
+  }
+  return {
+    nickname: 'Ada',
+    mode: 'classic',
+    category: 'people',
+    score: plan.filter(Boolean).length,
+    rules: 'endless', // Any length
+    durationMs: clock - 10_000,
+    seed: encodeRoundSeed(state),
+    guesses,
+    ...overrides,
+  };
+};
+
+describe('leaderboard', () => {
+  beforeEach(async () => {
+    await loadFixtureCatalog(['people'], 12);
+  });
+
+  describe('verifySubmission', () => {
+    it('accepts an honest round', () => {
+      expect(verifySubmission(playRound([true, false, true, true]))).toEqual([]);
+    });
+
+    it('rejects a score the guesses did not earn', () => {
+      expect(verifySubmission(playRound([true, false], { score: 2 }))).toEqual([
+        'score 2 does not match the guesses, which earn 1',
+      ]);
+    });
+
+    it('rejects guesses marked right that were wrong', () => {
+      const round = playRound([true, false]);
+      round.guesses[1] = { ...round.guesses[1], isCorrect: true };
+
+      expect(verifySubmission({ ...round, score: 2 })).toContain('guess 2: marked right but was not');
+    });
+
+    it('rejects images the seed does not deal', () => {
+      const round = playRound([true, true]);
+      const otherSeed = encodeRoundSeed(startGame({ ...config, seed: 'other' }));
+
+      expect(verifySubmission({ ...round, seed: otherSeed })).toContain('guess 1: not the images the seed deals');
+      expect(verifySubmission({ ...round, seed: 'x' })).toContain('seed is not a valid seed code');
+    });
+
+    it('rejects inhuman timing', () => {
+      const round = playRound([true, true]);
+      round.guesses[1] = { ...round.guesses[1], responseTimeMs: 40 };
+
+      expect(verifySubmission(round)).toContain('guess 2: response time 40 ms is not humanly possible');
+      expect(verifySubmission(playRound([true], { durationMs: 10 }))).toContain('duration is shorter than the guesses took');
+    });
+
+    it('holds rounds to the length their rules set', () => {
+      expect(verifySubmission(playRound([true, true, true, true, true], { rules: 'quick' }))).toEqual([]);
+      expect(verifySubmission(playRound([true, true], { rules: 'quick' }))).toContain('a Quick 5 round has 5 guesses');
+      expect(verifySubmission(playRound([true], { rules: 'sprint' as never }))).toContain('unknown rules preset sprint');
+      expect(verifySubmission(playRound([true], { mode: 'blitz', score: 150 }))).toContain('blitz rounds have no rules preset');
+    });
+
+    it('rejects blitz rounds that outlast the clock', () => {
+      const plan = Array.from({ length: 40 }, () => true);
+      const round = playRound(plan, { mode: 'blitz', rules: null });
+      const blitz = { ...round, score: scoreGuesses('blitz', round.guesses) };
+
+      expect(verifySubmission(blitz)).toEqual(['a blitz round lasts 60 s']);
+      expect(verifySubmission({ ...blitz, guesses: blitz.guesses.slice(0, 25), score: scoreGuesses('blitz', blitz.guesses.slice(0, 25)), durationMs: 50_000 }))
+        .toEqual([]);
+    });
+
+    it("accepts only today's daily", () => {
+      const daily = { ...config, filter: 'all' as const, seed: 'daily:2026-10-19:pairs', adaptive: false };
+      const round = playRound(Array.from({ length: 10 }, () => true), { mode: 'daily', category: 'all', rules: null }, daily);
+
+      expect(verifySubmission(round, Date.UTC(2026, 9, 19, 23))).toEqual([]);
+      expect(verifySubmission(round, Date.UTC(2026, 9, 20, 5))).toEqual([]); // Still the 19th west of UTC
+      expect(verifySubmission(round, Date.UTC(2026, 9, 25))).toContain("only today's daily can be submitted");
+      expect(verifySubmission({ ...round, guesses: round.guesses.slice(0, 3), score: 3 }, Date.UTC(2026, 9, 19)))
+        .toContain('a daily round has 10 guesses');
+    });
+
+    it('rejects malformed guesses before replaying them', () => {
+      const round = playRound([true, true, true]);
+      const guesses = [null, { ...round.guesses[1], responseTimeMs: '900' }, round.guesses[2]] as unknown as GuessRecord[];
+
+      expect(verifySubmission({ ...round, guesses })).toEqual(['guess 1: not a valid guess', 'guess 2: not a valid guess']);
+    });
+
+    it('checks the nickname and the mode', () => {
+      expect(verifySubmission(playRound([true], { nickname: '  ' }))).toContain('nickname must be 1-24 printable characters');
+      expect(verifySubmission(playRound([true], { mode: 'daily' }))).toContain('only daily rounds use the daily seed');
+    });
+  });
+
+  describe('service', () => {
+    it('stores accepted rounds with their rank and turns away forged ones', async () => {
+      const service = createLeaderboardService(createMemoryStore(), () => 1_000);
+
+      const first = await service.submit(playRound([true, false]));
+      const second = await service.submit(playRound([true, true], { nickname: 'Grace' }));
+      const forged = await service.submit(playRound([false, false], { score: 2 }));
+
+      expect(first).toMatchObject({ accepted: true, rank: 1 });
+      expect(second).toMatchObject({ accepted: true, rank: 1 });
+      expect(forged).toMatchObject({ accepted: false });
+      expect((await service.getBoard({ mode: 'classic', category: 'people', rules: 'endless', period: 'all-time' })).map(entry => entry.nickname))
+        .toEqual(['Grace', 'Ada']);
+    });
+
+    it('takes each round once per player', async () => {
+      const service = createLeaderboardService(createMemoryStore(), () => 1_000);
+
+      await service.submit(playRound([true, false]));
+      const replayed = await service.submit(playRound([true, true], { nickname: ' ada ' }));
+      const friend = await service.submit(playRound([true, true], { nickname: 'Grace' }));
+
+      expect(replayed).toEqual({ accepted: false, problems: ['ada already has this round on the board'] });
+      expect(friend).toMatchObject({ accepted: true });
+    });
+  });
+
+  describe('boards', () => {
+    // Wednesday 2026-10-21, 15:00 UTC
+    const now = Date.UTC(2026, 9, 21, 15);
+    const entry = (id: string, score: number, submittedAt: number, durationMs = 10_000): LeaderboardEntry => ({
+      id,
+      nickname: id,
+      mode: 'classic',
+      category: 'all',
+      score,
+      rules: 'standard',
+      durationMs,
+      seed: 'seed.2a.all.0',
+      submittedAt,
+    });
+
+    it('start at UTC midnight and on Monday', () => {
+      expect(getPeriodStart('daily', now)).toBe(Date.UTC(2026, 9, 21));
+      expect(getPeriodStart('weekly', now)).toBe(Date.UTC(2026, 9, 19));
+      expect(getPeriodStart('all-time', now)).toBe(0);
+    });
+
+    it('rank by score, then by speed, within the period', () => {
+      const entries = [
+        entry('last-week', 10, Date.UTC(2026, 9, 18)),
+        entry('monday', 8, Date.UTC(2026, 9, 19, 9)),
+        entry('slow', 9, Date.UTC(2026, 9, 21, 8), 20_000),
+        entry('fast', 9, Date.UTC(2026, 9, 21, 9), 12_000),
+        { ...entry('blitz', 900, Date.UTC(2026, 9, 21, 9)), mode: 'blitz' as const, rules: null },
+        { ...entry('marathon', 40, Date.UTC(2026, 9, 21, 9)), rules: 'marathon' as const },
+      ];
+      const board = (period: 'daily' | 'weekly' | 'all-time') =>
+        rankEntries(entries, { mode: 'classic', category: 'all', rules: 'standard', period }, now).map(ranked => `${ranked.rank}:${ranked.id}`);
+
+      expect(board('daily')).toEqual(['1:fast', '2:slow']);
+      expect(board('weekly')).toEqual(['1:fast', '2:slow', '3:monday']);
+      expect(board('all-time')).toEqual(['1:last-week', '2:fast', '3:slow', '4:monday']);
+    });
+  });
+});
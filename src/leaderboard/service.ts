@@ -0,0 +1,142 @@
+import { FilterCategory, GameMode, RulesPresetId } from '../types';
+import { parseRoundSeed } from '../engine/roundSeed';
+import { LeaderboardSubmission, verifySubmission } from './verify';
+
+// The leaderboard itself, independent of where entries are kept and how they arrive.
+// The Node server runs it over a JSON file; the in-memory client runs it in the browser.
+
+export interface LeaderboardEntry {
+  id: string;
+  nickname: string;
+  mode: GameMode;
+  category: FilterCategory;
+  score: number;
+  rules: RulesPresetId | null;
+  durationMs: number;
+  seed: string;
+  submittedAt: number; // Unix time in ms, set on arrival
+}
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all-time';
+
+export interface BoardQuery {
+  mode: GameMode;
+  category: FilterCategory;
+  rules: RulesPresetId | null; // Each classic preset has boards of its own
+  period: LeaderboardPeriod;
+  limit?: number;
+}
+
+export interface RankedEntry extends LeaderboardEntry {
+  rank: number; // 1-based
+}
+
+export type SubmitResult =
+  | { accepted: true; entry: LeaderboardEntry; rank: number } // Rank on the all-time board
+  | { accepted: false; problems: string[] };
+
+/**
+ * Where entries are kept. Implementations only store; ranking happens in the service.
+ */
+export interface LeaderboardStore {
+  add(entry: LeaderboardEntry): Promise<void>;
+  list(): Promise<LeaderboardEntry[]>;
+}
+
+export interface LeaderboardService {
+  submit(submission: LeaderboardSubmission): Promise<SubmitResult>;
+  getBoard(query: BoardQuery): Promise<RankedEntry[]>;
+}
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'all-time'];
+export const DEFAULT_BOARD_LIMIT = 10;
+export const MAX_BOARD_LIMIT = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a board's period began. Days and weeks follow UTC, so everyone shares one board;
+ * weeks start on Monday.
+ */
+export const getPeriodStart = (period: LeaderboardPeriod, now: number): number => {
+  if (period === 'all-time') return 0;
+  const today = Math.floor(now / DAY_MS) * DAY_MS;
+  if (period === 'daily') return today;
+  const daysSinceMonday = (new Date(today).getUTCDay() + 6) % 7;
+  return today - daysSinceMonday * DAY_MS;
+};
+
+const isOnBoard = (entry: LeaderboardEntry, { mode, category, rules }: Pick<BoardQuery, 'mode' | 'category' | 'rules'>): boolean =>
+  // Entries from before rules were recorded have none
+  entry.mode === mode && entry.category === category && (entry.rules ?? null) === rules;
+
+// The seed that deals a round, without the picks an adaptive round's code adds as it goes
+const getRoundSeed = (code: string): string => parseRoundSeed(code)?.seed ?? code;
+
+// Higher score first; ties go to the faster round, then to whoever got there first
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry): number =>
+  b.score - a.score || a.durationMs - b.durationMs || a.submittedAt - b.submittedAt;
+
+export const rankEntries = (entries: LeaderboardEntry[], query: BoardQuery, now: number): RankedEntry[] => {
+  const since = getPeriodStart(query.period, now);
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_BOARD_LIMIT), MAX_BOARD_LIMIT);
+  return entries
+    .filter(entry => isOnBoard(entry, query) && entry.submittedAt >= since)
+    .sort(compareEntries)
+    .slice(0, limit)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+};
+
+export const createMemoryStore = (): LeaderboardStore => {
+  const entries: LeaderboardEntry[] = [];
+  return {
+    add: async entry => {
+      entries.push(entry);
+    },
+    list: async () => [...entries],
+  };
+};
+
+const createEntryId = (now: number): string =>
+  `${now.toString(36)}-${Array.from(crypto.getRandomValues(new Uint8Array(4)), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * @param now - Clock for submission times and board periods, injectable for tests
+ */
+export const createLeaderboardService = (store: LeaderboardStore, now: () => number = Date.now): LeaderboardService => ({
+  submit: async submission => {
+    const submittedAt = now();
+    const problems = verifySubmission(submission, submittedAt);
+    if (problems.length > 0) return { accepted: false, problems };
+
+    // A round can be dealt again from its seed with the answers already known, so each player
+    // gets one entry per round
+    const nickname = submission.nickname.trim();
+    const seed = getRoundSeed(submission.seed);
+    const previous = await store.list();
+    if (previous.some(other => getRoundSeed(other.seed) === seed && other.nickname.toLowerCase() === nickname.toLowerCase())) {
+      return { accepted: false, problems: [`${nickname} already has this round on the board`] };
+    }
+
+    const entry: LeaderboardEntry = {
+      id: createEntryId(submittedAt),
+      nickname,
+      mode: submission.mode,
+      category: submission.category,
+      score: submission.score,
+      rules: submission.rules,
+      durationMs: submission.durationMs,
+      seed: submission.seed,
+      submittedAt,
+    };
+    await store.add(entry);
+
+    const all = await store.list();
+    const rank = all
+      .filter(other => isOnBoard(other, entry))
+      .sort(compareEntries)
+      .findIndex(other => other.id === entry.id) + 1;
+    return { accepted: true, entry, rank };
+  },
+  getBoard: async query => rankEntries(await store.list(), query, now()),
+});
@@ -0,0 +1,163 @@
+import { FilterCategory, GameMode, GuessRecord, RulesPresetId } from '../types';
+import { answerRound, nextRound, startGame } from '../engine/gameEngine';
+import { parseRoundSeed } from '../engine/roundSeed';
+import { BLITZ_DURATION_MS, scoreBlitzGuess } from '../data/blitz';
+import { DAILY_ROUND_LENGTH, getDailySeedDate } from '../data/daily';
+import { RULES_PRESETS, DEFAULT_RULES_PRESET } from '../data/rules';
+
+// Leaderboard submissions are replayed from their seed code before they count: the seed must
+// deal exactly the images in the guess log, every guess is judged again against the catalog,
+// and the score must follow from those judgements. A forged score would need a forged guess
+// log that still picks the right images, which is the game itself. The round must also be as
+// long as its rules say, and a daily must be today's.
+
+export interface LeaderboardSubmission {
+  nickname: string;
+  mode: GameMode;
+  category: FilterCategory;
+  score: number; // Right guesses; points in blitz
+  rules: RulesPresetId | null; // Classic rounds' preset; daily and blitz rounds have fixed rules
+  durationMs: number;
+  seed: string; // The round's seed code
+  guesses: GuessRecord[];
+}
+
+export const MAX_NICKNAME_LENGTH = 24;
+export const MAX_SUBMITTED_GUESSES = 200;
+// Faster than anyone can look at an image and press a button
+const MIN_RESPONSE_MS = 150;
+// Every rules preset reshuffles the single layout after the same number of images
+const UNIQUE_DISPLAY_TARGET = RULES_PRESETS[DEFAULT_RULES_PRESET].rules.uniqueDisplayTarget;
+// The blitz clock is checked on ticks, so an answer can land just after it ran out
+const BLITZ_CLOCK_SLACK_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GAME_MODES: GameMode[] = ['classic', 'daily', 'blitz'];
+const NICKNAME_PATTERN = /^[^\p{C}]+$/u;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Whether a submitted guess has every field a guess record has, of the right type. Submissions
+ * come straight from the request body, so nothing else can read a guess before this says yes.
+ */
+const isGuessRecord = (guess: unknown): guess is GuessRecord => {
+  if (typeof guess !== 'object' || guess === null) return false;
+  const record = guess as Record<string, unknown>;
+  return Array.isArray(record.imageIds)
+    && record.imageIds.every(id => typeof id === 'string')
+    && typeof record.chosenImageId === 'string'
+    && (record.guess === 'real' || record.guess === 'ai')
+    && typeof record.isCorrect === 'boolean'
+    && isFiniteNumber(record.responseTimeMs)
+    && isFiniteNumber(record.answeredAt)
+    && (record.confidence === undefined || isFiniteNumber(record.confidence));
+};
+
+/**
+ * The score a guess log earns: right guesses, or blitz points, which never drop below zero.
+ */
+export const scoreGuesses = (mode: GameMode, guesses: Pick<GuessRecord, 'isCorrect' | 'responseTimeMs'>[]): number =>
+  mode === 'blitz'
+    ? guesses.reduce((points, guess) => Math.max(0, points + scoreBlitzGuess(guess.isCorrect, guess.responseTimeMs)), 0)
+    : guesses.filter(guess => guess.isCorrect).length;
+
+/**
+ * Start to finish of a round, from when the first images appeared to the last answer.
+ */
+export const getRoundDurationMs = (guesses: GuessRecord[]): number =>
+  guesses.length === 0 ? 0 : guesses[guesses.length - 1].answeredAt - (guesses[0].answeredAt - guesses[0].responseTimeMs);
+
+const checkTiming = (guesses: GuessRecord[], durationMs: number): string[] => {
+  const problems: string[] = [];
+  guesses.forEach((guess, i) => {
+    if (!Number.isFinite(guess.responseTimeMs) || guess.responseTimeMs < MIN_RESPONSE_MS) {
+      problems.push(`guess ${i + 1}: response time ${guess.responseTimeMs} ms is not humanly possible`);
+    }
+    // The images for a guess appear after the previous answer
+    const previous = guesses[i - 1];
+    if (previous && guess.answeredAt - guess.responseTimeMs < previous.answeredAt) {
+      problems.push(`guess ${i + 1}: answered before its images were shown`);
+    }
+  });
+  if (!Number.isFinite(durationMs) || durationMs < getRoundDurationMs(guesses)) {
+    problems.push('duration is shorter than the guesses took');
+  }
+  return problems;
+};
+
+// Round lengths and durations, as the rules the round was played under set them
+const checkRules = ({ mode, rules, durationMs, guesses }: LeaderboardSubmission): string[] => {
+  if (mode === 'classic') {
+    if (typeof rules !== 'string' || !(rules in RULES_PRESETS)) return [`unknown rules preset ${String(rules)}`];
+    const { label, rules: { roundLength } } = RULES_PRESETS[rules];
+    return roundLength !== null && guesses.length !== roundLength ? [`a ${label} round has ${roundLength} guesses`] : [];
+  }
+  const problems = rules === null ? [] : [`${mode} rounds have no rules preset`];
+  if (mode === 'daily' && guesses.length !== DAILY_ROUND_LENGTH) problems.push(`a daily round has ${DAILY_ROUND_LENGTH} guesses`);
+  if (mode === 'blitz' && Math.max(durationMs, getRoundDurationMs(guesses)) > BLITZ_DURATION_MS + BLITZ_CLOCK_SLACK_MS) {
+    problems.push(`a blitz round lasts ${BLITZ_DURATION_MS / 1000} s`);
+  }
+  return problems;
+};
+
+/**
+ * Whether a daily seed deals today's daily. Players start it at their own midnight, so any
+ * date within a day of today's UTC date counts.
+ */
+const isCurrentDaily = (seed: string, now: number): boolean => {
+  const dateKey = getDailySeedDate(seed);
+  return dateKey !== null && Math.abs(Date.parse(`${dateKey}T00:00:00Z`) - Math.floor(now / DAY_MS) * DAY_MS) <= DAY_MS;
+};
+
+/**
+ * Checks a submission against its seed and guess log. Returns every problem found; none means it counts.
+ * @param now - Clock for the daily's date, injectable for tests
+ */
+export const verifySubmission = (submission: LeaderboardSubmission, now: number = Date.now()): string[] => {
+  const { nickname, mode, category, score, durationMs, seed, guesses } = submission;
+  const problems: string[] = [];
+
+  const trimmed = typeof nickname === 'string' ? nickname.trim() : '';
+  if (!trimmed || trimmed.length > MAX_NICKNAME_LENGTH || !NICKNAME_PATTERN.test(trimmed)) {
+    problems.push(`nickname must be 1-${MAX_NICKNAME_LENGTH} printable characters`);
+  }
+  if (!GAME_MODES.includes(mode)) problems.push(`unknown mode ${String(mode)}`);
+  if (!Array.isArray(guesses) || guesses.length === 0 || guesses.length > MAX_SUBMITTED_GUESSES) {
+    problems.push(`a round has 1-${MAX_SUBMITTED_GUESSES} guesses`);
+    return problems;
+  }
+  const malformed = guesses.flatMap((guess, i) => (isGuessRecord(guess) ? [] : [`guess ${i + 1}: not a valid guess`]));
+  if (malformed.length > 0) return [...problems, ...malformed];
+
+  const replay = typeof seed === 'string' ? parseRoundSeed(seed) : null;
+  if (!replay) {
+    problems.push('seed is not a valid seed code');
+    return problems;
+  }
+  if (replay.filter !== category) problems.push(`seed deals ${replay.filter}, not ${category}`);
+  if ((mode === 'daily') !== replay.seed.startsWith('daily:')) problems.push('only daily rounds use the daily seed');
+  else if (mode === 'daily' && !isCurrentDaily(replay.seed, now)) problems.push("only today's daily can be submitted");
+  problems.push(...checkRules(submission));
+
+  // Deal the round again and judge each guess on the images it really showed
+  let state = startGame({ ...replay, uniqueDisplayTarget: UNIQUE_DISPLAY_TARGET });
+  const judged: GuessRecord[] = [];
+  for (const [i, guess] of guesses.entries()) {
+    if (i > 0) state = nextRound(state);
+    const round = state.round;
+    const dealtIds = round?.candidates.map(image => image.id) ?? [];
+    const record = round && guess.imageIds.join() === dealtIds.join() ? answerRound(round, guess) : null;
+    if (!record) {
+      problems.push(`guess ${i + 1}: not the images the seed deals`);
+      return problems;
+    }
+    if (record.isCorrect !== guess.isCorrect) problems.push(`guess ${i + 1}: marked ${guess.isCorrect ? 'right' : 'wrong'} but was not`);
+    judged.push(record);
+  }
+
+  const expected = scoreGuesses(mode, judged);
+  if (score !== expected) problems.push(`score ${score} does not match the guesses, which earn ${expected}`);
+  problems.push(...checkTiming(guesses, durationMs));
+  return problems;
+};
@@ -1,10 +1,18 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { registerServiceWorker } from './serviceWorker/register';
+import { detectImageFormats } from './data/cardImage';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+registerServiceWorker();
+
+// Decided before the first deal, so cards, the preload queue and the service worker all ask
+// for the same variant; the probe is a data URL and takes no network
+detectImageFormats().then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+});
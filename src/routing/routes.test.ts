@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { parseRoute, Route, routePath } from './routes';
+import { loadFixtureCatalog } from '../test/fixtures';
+
+describe('routes', () => {
+  beforeAll(async () => {
+    await loadFixtureCatalog(['people', 'nature'], 2);
+  });
+
+  it('reads every page from its path', () => {
+    expect(parseRoute('/play/nature')).toEqual({ name: 'play', category: 'nature' });
+    expect(parseRoute('/play/all/')).toEqual({ name: 'play', category: 'all' });
+    expect(parseRoute('/daily')).toEqual({ name: 'daily' });
+    expect(parseRoute('/stats')).toEqual({ name: 'stats' });
+    expect(parseRoute('/leaderboard')).toEqual({ name: 'leaderboard' });
+    expect(parseRoute('/about')).toEqual({ name: 'about' });
+    expect(parseRoute('/review/m1x2-ab12')).toEqual({ name: 'review', roundId: 'm1x2-ab12' });
+    expect(parseRoute('/challenge/k3f9x2ab.2a.people.01')).toEqual({ name: 'challenge', code: 'k3f9x2ab.2a.people.01' });
+  });
+
+  it('keeps the old article address working', () => {
+    expect(parseRoute('/realorai')).toEqual({ name: 'about' });
+  });
+
+  it('opens the game for unknown paths and categories without images', () => {
+    expect(parseRoute('/')).toEqual({ name: 'play', category: null });
+    expect(parseRoute('/play/city')).toEqual({ name: 'play', category: null });
+    expect(parseRoute('/review')).toEqual({ name: 'play', category: null });
+    expect(parseRoute('/nowhere')).toEqual({ name: 'play', category: null });
+  });
+
+  it('builds paths that read back as the same route', () => {
+    const routes: Route[] = [
+      { name: 'play', category: 'people' },
+      { name: 'play', category: null },
+      { name: 'daily' },
+      { name: 'stats' },
+      { name: 'leaderboard' },
+      { name: 'about' },
+      { name: 'review', roundId: 'a b/c' },
+      { name: 'challenge', code: 'daily:2026-10-19:pairs.2a.all' },
+    ];
+
+    for (const route of routes) {
+      expect(parseRoute(routePath(route))).toEqual(route);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { Category, FilterCategory } from '../types';
+import { availableCategories } from '../data/images';
+
+// The pages of the app and their paths. There is no router library: the path is read
+// on load and on back/forward, and navigate() pushes new entries onto the history.
+
+export type Route =
+  | { name: 'play'; category: FilterCategory | null } // Null: whatever category the player had
+  | { name: 'daily' }
+  | { name: 'stats' }
+  | { name: 'leaderboard' }
+  | { name: 'about' }
+  | { name: 'review'; roundId: string }
+  | { name: 'challenge'; code: string };
+
+// Lets the app re-render for navigate(), which browsers don't report the way they report back/forward
+export const NAVIGATE_EVENT = 'realorai:navigate';
+
+const isFilterCategory = (value: string): value is FilterCategory =>
+  value === 'all' || availableCategories.includes(value as Category);
+
+/**
+ * Reads the route from a path. Unknown paths, and categories this catalog doesn't have,
+ * open the game with the player's category.
+ */
+export const parseRoute = (pathname: string): Route => {
+  const [page, param] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  switch (page) {
+    case 'daily':
+      return { name: 'daily' };
+    case 'stats':
+      return { name: 'stats' };
+    case 'leaderboard':
+      return { name: 'leaderboard' };
+    case 'about':
+    case 'realorai': // The article's address before it moved to /about
+      return { name: 'about' };
+    case 'review':
+      if (param) return { name: 'review', roundId: param };
+      break;
+    case 'challenge':
+      if (param) return { name: 'challenge', code: param };
+      break;
+    case 'play':
+      if (param && isFilterCategory(param)) return { name: 'play', category: param };
+      break;
+  }
+  return { name: 'play', category: null };
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.name) {
+    case 'play':
+      return route.category ? `/play/${route.category}` : '/';
+    case 'daily':
+      return '/daily';
+    case 'stats':
+      return '/stats';
+    case 'leaderboard':
+      return '/leaderboard';
+    case 'about':
+      return '/about';
+    case 'review':
+      return `/review/${encodeURIComponent(route.roundId)}`;
+    case 'challenge':
+      return `/challenge/${encodeURIComponent(route.code)}`;
+  }
+};
+
+export const playPath = (category: FilterCategory): string => routePath({ name: 'play', category });
+
+/**
+ * Moves to a path without reloading. Does nothing if it is already the current one.
+ * @param options.replace - Replace the current history entry instead of adding one
+ */
+export const navigate = (path: string, { replace = false }: { replace?: boolean } = {}): void => {
+  if (path === window.location.pathname && !window.location.search) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
@@ -0,0 +1,18 @@
+// What the service worker and the page share. Types only: the worker is compiled on its own,
+// without a bundler, so it can't import values from the app.
+
+/**
+ * Baked into sw.js at build time by plugins/serviceWorker.ts.
+ */
+export interface PrecacheManifest {
+  version: string; // Changes with any precached file, so a new build installs a new worker
+  catalogKey: string; // Changes with the image catalog; image caches are kept per catalog
+  shell: string[]; // The page, scripts, styles and icons needed to start offline
+  lqips: string[]; // Every placeholder, so any image can at least show blurred
+}
+
+// The page asks the worker to fetch the images it will show next, in the variants it will show
+export interface PrefetchMessage {
+  type: 'prefetch';
+  urls: string[];
+}
@@ -0,0 +1,26 @@
+import { createLogger } from '../utils/logger';
+import { PrefetchMessage } from './precache';
+
+// The page's side of the service worker (sw.ts). Production builds only: the worker is
+// generated by the build, and dev servers should never be served from a cache.
+
+const log = createLogger('serviceWorker');
+
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(error => log.warn('Could not register the service worker:', error));
+  });
+};
+
+/**
+ * Asks the worker to cache images the game will show soon, so the round goes on offline.
+ * Does nothing until a worker controls the page.
+ */
+export const prefetchForOffline = (urls: string[]): void => {
+  if (urls.length === 0 || typeof navigator === 'undefined') return;
+  const message: PrefetchMessage = { type: 'prefetch', urls };
+  navigator.serviceWorker?.controller?.postMessage(message);
+};
@@ -0,0 +1,117 @@
+/// <reference lib="webworker" />
+import type { PrecacheManifest, PrefetchMessage } from './precache';
+
+// The service worker. plugins/serviceWorker.ts compiles it and defines PRECACHE above it.
+//
+// Three caches, all named after what they hold so stale ones can be found and dropped:
+//   shell   the page and its assets, per build; served first so the game starts offline
+//   lqip    every placeholder, per catalog
+//   images  full-size images and metadata, per catalog: a rolling window of the images the page
+//           prefetches plus the images and metadata it showed, trimmed oldest first
+
+declare const PRECACHE: PrecacheManifest;
+
+const worker = self as unknown as ServiceWorkerGlobalScope;
+
+const CACHE_PREFIX = 'realorai-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${PRECACHE.version}`;
+const LQIP_CACHE = `${CACHE_PREFIX}lqip-${PRECACHE.catalogKey}`;
+const IMAGE_CACHE = `${CACHE_PREFIX}images-${PRECACHE.catalogKey}`;
+// About ten rounds of six-image grids with their metadata
+const MAX_CACHED_IMAGES = 150;
+
+const shellPaths = new Set(PRECACHE.shell);
+const lqipPaths = new Set(PRECACHE.lqips);
+
+worker.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    await (await caches.open(SHELL_CACHE)).addAll(PRECACHE.shell);
+    await (await caches.open(LQIP_CACHE)).addAll(PRECACHE.lqips);
+    await worker.skipWaiting();
+  })());
+});
+
+worker.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const current = [SHELL_CACHE, LQIP_CACHE, IMAGE_CACHE];
+    for (const name of await caches.keys()) {
+      if (name.startsWith(CACHE_PREFIX) && !current.includes(name)) await caches.delete(name);
+    }
+    await worker.clients.claim();
+  })());
+});
+
+// Drops the oldest entries once the window is full
+const trimImageCache = async (cache: Cache) => {
+  const keys = await cache.keys();
+  for (const request of keys.slice(0, Math.max(0, keys.length - MAX_CACHED_IMAGES))) {
+    await cache.delete(request);
+  }
+};
+
+// Moves an entry to the young end of the window, fetching it if it isn't cached yet
+const cacheImage = async (cache: Cache, url: string): Promise<Response> => {
+  const cached = await cache.match(url);
+  if (cached) {
+    await cache.delete(url);
+    await cache.put(url, cached.clone());
+    return cached;
+  }
+  const response = await fetch(url);
+  if (response.ok) await cache.put(url, response.clone());
+  return response;
+};
+
+const prefetchImages = async (urls: string[]) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  for (const url of urls) {
+    try {
+      await cacheImage(cache, url);
+    } catch {
+      // Offline or gone; the card falls back to its placeholder
+    }
+  }
+  await trimImageCache(cache);
+};
+
+const respondWithImage = async (request: Request): Promise<Response> => {
+  const path = new URL(request.url).pathname;
+  const lqip = lqipPaths.has(path) ? await caches.match(path, { cacheName: LQIP_CACHE }) : undefined;
+  if (lqip) return lqip;
+  const cache = await caches.open(IMAGE_CACHE);
+  const response = await cacheImage(cache, path);
+  await trimImageCache(cache);
+  return response;
+};
+
+// Network first, so a deploy shows up on the next load; the cached page when offline
+const respondToNavigation = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const page = await caches.match('/', { cacheName: SHELL_CACHE });
+    if (page) return page;
+    throw error;
+  }
+};
+
+worker.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== worker.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(respondToNavigation(request));
+  } else if (url.pathname.startsWith('/img/')) {
+    event.respondWith(respondWithImage(request));
+  } else if (shellPaths.has(url.pathname)) {
+    event.respondWith((async () => (await caches.match(url.pathname, { cacheName: SHELL_CACHE })) ?? fetch(request))());
+  }
+});
+
+worker.addEventListener('message', event => {
+  const message = event.data as PrefetchMessage | undefined;
+  if (message?.type === 'prefetch' && Array.isArray(message.urls)) {
+    event.waitUntil(prefetchImages(message.urls));
+  }
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getProfileSaveError, loadProfile, recordRound, saveProfile } from './profile';
+import { GuessRecord, RoundRecord } from '../types';
+
+const guess: GuessRecord = {
+  imageIds: ['a', 'b'],
+  chosenImageId: 'a',
+  guess: 'ai',
+  isCorrect: true,
+  responseTimeMs: 1000,
+  layout: 'pairs',
+  answeredAt: 0,
+};
+
+const round = (id: number, guesses = 10): RoundRecord => ({
+  id: String(id),
+  mode: 'classic',
+  category: 'people',
+  score: guesses,
+  totalAttempts: guesses,
+  bestStreak: guesses,
+  finishedAt: id,
+  guesses: Array.from({ length: guesses }, () => guess),
+});
+
+// Storage that only takes values up to a size, like a browser's quota
+const limitStorage = (maxLength: number) => {
+  const setItem = localStorage.setItem.bind(localStorage);
+  vi.spyOn(localStorage, 'setItem').mockImplementation((key, value) => {
+    if (value.length > maxLength) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    setItem(key, value);
+  });
+};
+
+describe('recordRound', () => {
+  it('keeps totals for every round but guess logs for the latest only', () => {
+    for (let id = 1; id <= 60; id++) recordRound(round(id));
+
+    const { rounds } = loadProfile();
+    expect(rounds).toHaveLength(60);
+    expect(rounds.slice(0, 10).every(stored => stored.guesses.length === 0 && stored.score === 10)).toBe(true);
+    expect(rounds.slice(10).every(stored => stored.guesses.length === 10)).toBe(true);
+  });
+});
+
+describe('saveProfile', () => {
+  it('drops older guess logs when the profile is over the quota', () => {
+    const profile = { ...loadProfile(), rounds: [round(1, 200), round(2, 200), round(3, 1)] };
+    limitStorage(JSON.stringify(profile).length / 2);
+
+    expect(saveProfile(profile)).toBe(true);
+    expect(loadProfile().rounds.map(stored => stored.guesses.length)).toEqual([0, 0, 1]);
+    expect(getProfileSaveError()).toBeNull();
+  });
+
+  it('reports a save that still does not fit', () => {
+    limitStorage(10);
+
+    expect(saveProfile(loadProfile())).toBe(false);
+    expect(getProfileSaveError()).toBe('Storage on this device is full.');
+
+    vi.restoreAllMocks();
+    expect(saveProfile(loadProfile())).toBe(true);
+    expect(getProfileSaveError()).toBeNull();
+  });
+});
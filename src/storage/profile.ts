@@ -0,0 +1,107 @@
+import { DailyResult, RoundRecord } from '../types';
+import { createEmptyProfile, migrateProfile, PlayerProfile, StoredProfile } from './schema';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('profile');
+
+const PROFILE_STORAGE_KEY = 'realorai:profile';
+// Written by the first daily challenge release, before profiles existed
+const LEGACY_DAILY_STORAGE_KEY = 'realorai:daily-results';
+
+// Totals of older rounds are enough for the stats; only the latest keep the guess log that
+// reviews need, which is most of a round's size and unbounded in Endless rounds
+const MAX_STORED_ROUNDS = 500;
+const GUESS_LOG_ROUNDS = 50;
+
+// Set when the profile couldn't be saved, until a save succeeds again
+let saveError: string | null = null;
+
+const readJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  return raw ? JSON.parse(raw) : null;
+};
+
+/**
+ * Loads the player profile from localStorage, migrating older schema versions.
+ * Falls back to an empty, in-memory profile when storage is unavailable or corrupt.
+ */
+export const loadProfile = (): PlayerProfile => {
+  try {
+    const stored = readJson(PROFILE_STORAGE_KEY) as StoredProfile | null;
+    if (stored && typeof stored.version === 'number') {
+      return migrateProfile(stored);
+    }
+
+    // No profile yet: start from version 0 so legacy data goes through the migrations
+    const legacyDaily = readJson(LEGACY_DAILY_STORAGE_KEY);
+    const profile = migrateProfile({ version: 0, dailyResults: legacyDaily ?? {} });
+    saveProfile(profile);
+    localStorage.removeItem(LEGACY_DAILY_STORAGE_KEY);
+    return profile;
+  } catch (error) {
+    log.warn('Could not load the player profile, starting fresh:', error);
+    return createEmptyProfile();
+  }
+};
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Drops the guess logs of all but the latest `keep` rounds
+const trimGuessLogs = (rounds: RoundRecord[], keep: number): RoundRecord[] =>
+  rounds.map((round, index) => (index < rounds.length - keep && round.guesses.length > 0 ? { ...round, guesses: [] } : round));
+
+/**
+ * Saves the profile. When it doesn't fit the storage quota, the older rounds' guess logs are
+ * dropped and the save is tried again. Returns false if the profile still couldn't be saved;
+ * getProfileSaveError says why.
+ */
+export const saveProfile = (profile: PlayerProfile): boolean => {
+  try {
+    try {
+      localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      log.warn('The player profile is over the storage quota; dropping older guess logs');
+      localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify({ ...profile, rounds: trimGuessLogs(profile.rounds, 1) }));
+    }
+    saveError = null;
+    return true;
+  } catch (error) {
+    // Storage can be unavailable (private mode, quota); the game still works for this session
+    saveError = isQuotaError(error) ? 'Storage on this device is full.' : 'Storage is unavailable in this browser.';
+    log.error('Could not save the player profile:', error);
+    return false;
+  }
+};
+
+/**
+ * Why the last save failed, or null if it succeeded. Progress made since isn't kept.
+ */
+export const getProfileSaveError = (): string | null => saveError;
+
+/**
+ * Applies a change to the stored profile and saves the result.
+ */
+export const updateProfile = (update: (profile: PlayerProfile) => PlayerProfile): PlayerProfile => {
+  const profile = update(loadProfile());
+  saveProfile(profile);
+  return profile;
+};
+
+export const createRoundId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const recordRound = (round: RoundRecord): void => {
+  updateProfile(profile => ({
+    ...profile,
+    rounds: trimGuessLogs([...profile.rounds, round].slice(-MAX_STORED_ROUNDS), GUESS_LOG_ROUNDS),
+  }));
+};
+
+export const recordDailyResult = (result: DailyResult): void => {
+  updateProfile(profile => ({
+    ...profile,
+    dailyResults: { ...profile.dailyResults, [result.dateKey]: result },
+  }));
+};
@@ -0,0 +1,84 @@
+import { DailyResult, RatingState, RoundRecord } from '../types';
+
+// Stored profile documents carry a schema version. Whenever the shape changes,
+// bump PROFILE_SCHEMA_VERSION and add a migration that upgrades the previous
+// version, so profiles saved by older builds keep loading.
+
+export const PROFILE_SCHEMA_VERSION = 3;
+
+export interface PlayerProfile {
+  version: typeof PROFILE_SCHEMA_VERSION;
+  createdAt: number; // Unix time in ms
+  rounds: RoundRecord[]; // Oldest first
+  dailyResults: Record<string, DailyResult>; // Keyed by YYYY-MM-DD
+  ratings: RatingState;
+}
+
+// Any stored document, of any version. Migrations narrow it step by step.
+export type StoredProfile = { version: number } & Record<string, unknown>;
+
+type Migration = (profile: StoredProfile) => StoredProfile;
+
+export const INITIAL_RATING = 1500;
+
+export const createInitialRatings = (): RatingState => ({
+  player: { rating: INITIAL_RATING, games: 0 },
+  images: {},
+});
+
+/**
+ * Migrations keyed by the version they produce. Version 0 is "no profile yet":
+ * the only data before profiles existed was the daily results map.
+ */
+const migrations: Record<number, Migration> = {
+  1: (profile) => {
+    const legacyDaily = (profile.dailyResults ?? {}) as Record<string, Omit<DailyResult, 'bestStreak'> & { bestStreak?: number }>;
+    const dailyResults: Record<string, DailyResult> = {};
+    for (const [dateKey, result] of Object.entries(legacyDaily)) {
+      // Early daily results only tracked the streak at the end of the round
+      dailyResults[dateKey] = { ...result, bestStreak: result.bestStreak ?? result.correctStreak };
+    }
+    return {
+      version: 1,
+      createdAt: typeof profile.createdAt === 'number' ? profile.createdAt : Date.now(),
+      rounds: [],
+      dailyResults,
+    };
+  },
+  2: (profile) => ({
+    ...profile,
+    version: 2,
+    // Rounds recorded before the guess log existed have no per-guess detail
+    rounds: (profile.rounds as Array<Record<string, unknown>>).map(round => ({ guesses: [], ...round })),
+  }),
+  // Ratings start fresh rather than being replayed from old guess logs, which are capped and partial
+  3: (profile) => ({
+    ...profile,
+    version: 3,
+    ratings: createInitialRatings(),
+  }),
+};
+
+export const createEmptyProfile = (): PlayerProfile => ({
+  version: PROFILE_SCHEMA_VERSION,
+  createdAt: Date.now(),
+  rounds: [],
+  dailyResults: {},
+  ratings: createInitialRatings(),
+});
+
+/**
+ * Upgrades a stored document to the current schema version.
+ * Throws if the document is newer than this build understands.
+ */
+export const migrateProfile = (stored: StoredProfile): PlayerProfile => {
+  if (stored.version > PROFILE_SCHEMA_VERSION) {
+    throw new Error(`Profile schema version ${stored.version} is newer than supported version ${PROFILE_SCHEMA_VERSION}`);
+  }
+
+  let profile = stored;
+  for (let version = stored.version + 1; version <= PROFILE_SCHEMA_VERSION; version++) {
+    profile = migrations[version](profile);
+  }
+  return profile as unknown as PlayerProfile;
+};
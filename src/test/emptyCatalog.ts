@@ -0,0 +1,7 @@
+import type { CatalogEntry } from '../data/images';
+
+// Stands in for virtual:image-catalog under Vitest; see vitest.config.ts
+export const catalogKey = 'test';
+
+const entries: CatalogEntry[] = [];
+export default entries;
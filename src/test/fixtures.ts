@@ -0,0 +1,31 @@
+import { BuiltCatalog, buildCatalog, ImageSource } from '../../plugins/imageCatalog';
+import { loadCatalog } from '../data/images';
+
+/**
+ * An image source backed by a path -> contents list instead of the image folder.
+ */
+export const fixtureSource = (files: Record<string, string>): ImageSource => ({
+  listFiles: async () => Object.keys(files),
+  readFile: async relativePath => {
+    if (!(relativePath in files)) throw new Error(`No fixture file ${relativePath}`);
+    return Buffer.from(files[relativePath]);
+  },
+});
+
+/**
+ * Builds a catalog with `perKind` real and `perKind` AI images in each category and
+ * makes it the one the game plays with. Every image has distinct contents, so a distinct id.
+ */
+export const loadFixtureCatalog = async (categories: string[], perKind: number): Promise<BuiltCatalog> => {
+  const files: Record<string, string> = {};
+  for (const category of categories) {
+    for (const type of ['real', 'ai']) {
+      for (let i = 1; i <= perKind; i++) {
+        files[`${category}/${type}/${i}.jpg`] = `${category}-${type}-${i}`;
+      }
+    }
+  }
+  const catalog = await buildCatalog(fixtureSource(files), () => {});
+  loadCatalog(catalog.entries, catalog.key);
+  return catalog;
+};
@@ -0,0 +1,20 @@
+// dom-to-image-more ships without type definitions; this covers the parts we use.
+declare module 'dom-to-image-more' {
+  export interface Options {
+    bgcolor?: string;
+    width?: number;
+    height?: number;
+    style?: Partial<CSSStyleDeclaration>;
+    scale?: number;
+    cacheBust?: boolean;
+    imagePlaceholder?: string;
+    filter?: (node: Node) => boolean;
+  }
+
+  const domtoimage: {
+    toBlob(node: Node, options?: Options): Promise<Blob>;
+    toPng(node: Node, options?: Options): Promise<string>;
+  };
+
+  export default domtoimage;
+}
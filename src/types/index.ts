@@ -1,18 +1,93 @@
 export type Category = 'people' | 'nature' | 'city' | 'interior';
 export type FilterCategory = Category | 'all';
+export type GameMode = 'classic' | 'daily' | 'blitz';
+// Pairs: pick the odd one out of two or more images. Single: call one image real or AI.
+// The player chooses; the viewport only decides the default.
+export type GameLayout = 'pairs' | 'single';
+
+// Encodings every image is published in, see data/imageVariants
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
 
 export interface Image {
   id: string;
-  src: string;
+  src: string; // The widest JPEG variant, for anything that can't choose
+  variants: Record<ImageFormat, string[]>; // URLs by format, one per width in IMAGE_WIDTHS
   lqipSrc?: string; // Low-Quality Image Placeholder
   category: Category;
-  isAI: boolean;
+  seal: number; // Real/AI label, sealed against casual inspection; read it with isAIImage() once a guess is made
+  metaSrc?: string; // Sidecar metadata, fetch it with loadImageMetadata() once a guess is made
 }
 
-export interface ImagePair {
-  realImage: Image;
-  aiImage: Image;
+// Per-image metadata from the <name>.json sidecar next to each source image
+export type TellKind = 'hands' | 'text' | 'lighting' | 'reflections' | 'anatomy' | 'texture' | 'background' | 'other';
+
+// Fractions of the published image (the source centre-cropped to a square), origin top-left
+export interface TellRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A visual giveaway that an image is (or isn't) AI-generated
+export interface ImageTell {
+  kind: TellKind;
+  description: string;
+  region?: TellRegion;
+}
+
+export interface ImageMetadata {
+  generator?: { model: string; version?: string }; // AI images only
+  prompt?: string; // AI images only
+  source?: { credit: string; url?: string };
+  photographer?: string; // Real images only
+  license?: string;
+  difficulty?: number; // 1 (easy) to 5 (hard)
+  tells?: ImageTell[];
+}
+
+// What the player is asked to find among the candidates
+export type ChallengeTarget = 'ai' | 'real';
+
+export interface ChallengeFormat {
+  size: number; // Candidates per challenge, 2-6
+  target: ChallengeTarget; // Exactly one candidate is this; the rest are the other kind
+}
+
+// A set of images from one category with exactly one odd one out. The classic
+// pair is a challenge of size 2 with an AI target.
+export interface Challenge {
   category: Category;
+  candidates: Image[]; // In display order
+  target: ChallengeTarget;
+}
+
+// One answered guess: the player said the chosen image is `guess`. In the single layout it is the only image.
+export interface GuessRecord {
+  imageIds: string[]; // Images shown, in display order
+  chosenImageId: string;
+  guess: 'real' | 'ai';
+  isCorrect: boolean;
+  responseTimeMs: number; // From the images being shown to the guess
+  layout: GameLayout;
+  answeredAt: number; // Unix time in ms
+  confidence?: number; // Stated chance of being right, 0.5-1, when confidence rating is on
+}
+
+export interface GameRules {
+  roundLength: number | null; // Guesses per round; null plays until the player ends it
+  advanceDelayMs: number; // How long the answer stays up before the next images
+  confettiStreakInterval: number; // Confetti every this many correct guesses in a row
+  uniqueDisplayTarget: number; // Single-image layout reshuffles after this many images
+}
+
+export type RulesPresetId = 'quick' | 'standard' | 'marathon' | 'endless';
+
+export interface BlitzState {
+  endsAt: number; // Unix time in ms
+  timeLeftMs: number; // Updated on every tick; 0 once expired
+  points: number; // Speed-weighted score with penalties, never below 0
+  expired: boolean;
 }
 
 export interface GameState {
@@ -22,15 +97,75 @@ export interface GameState {
   isCorrect: boolean | null;
   showFeedback: boolean;
   correctStreak: number;
+  bestStreak: number;
   selectedCategory: FilterCategory;
   showSummary: boolean;
+  mode: GameMode;
+  rulesPreset: RulesPresetId;
+  rules: GameRules; // Rules for classic rounds; the daily challenge has its own
+  confidenceEnabled: boolean; // Ask for a confidence level with every guess
+  layout: GameLayout;
+  challengeFormat: ChallengeFormat; // What the pairs layout shows per guess
+  blitz: BlitzState | null; // Set while a blitz round is running or being summarised
+  results: boolean[]; // One entry per guess this round, true when correct
+  guesses: GuessRecord[]; // Full log of this round's guesses
+}
+
+
+export interface DailyResult {
+  dateKey: string; // Local calendar date, YYYY-MM-DD
+  layout: GameLayout;
+  score: number;
+  totalAttempts: number;
+  correctStreak: number;
+  bestStreak: number;
+  results: boolean[];
+  guesses?: GuessRecord[]; // Not kept by results saved before attempts could be resumed
+  inProgress?: true; // Saved after a guess but before the last one; reopening the daily resumes it
+}
+
+// A finished round as stored in the player profile
+// Elo-style skill estimate. Players and images are rated on the same scale:
+// a player beats an image pair when they guess it right.
+export interface Rating {
+  rating: number;
+  games: number; // Rated guesses so far
+}
+
+export interface RatingState {
+  player: Rating;
+  images: Record<string, Rating>; // Keyed by image id
+}
+
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+export interface RoundRecord {
+  id: string;
+  mode: GameMode;
+  category: FilterCategory;
+  score: number;
+  totalAttempts: number;
+  bestStreak: number;
+  finishedAt: number; // Unix time in ms
+  guesses: GuessRecord[];
+  points?: number; // Blitz rounds only
+  seed?: string; // Seed code that deals the same images again, see engine/roundSeed
 }
 
 export type GameAction =
   | { type: 'SELECT_IMAGE'; payload: string }
-  | { type: 'SHOW_FEEDBACK'; payload: boolean }
+  | { type: 'SHOW_FEEDBACK'; payload: GuessRecord }
   | { type: 'NEXT_PAIR' }
   | { type: 'RESET_GAME' }
   | { type: 'SET_CATEGORY'; payload: FilterCategory }
+  | { type: 'SET_MODE'; payload: GameMode }
+  | { type: 'SET_RULES'; payload: RulesPresetId }
+  | { type: 'SET_CONFIDENCE_ENABLED'; payload: boolean }
+  | { type: 'SET_CHALLENGE_FORMAT'; payload: ChallengeFormat }
+  | { type: 'SET_LAYOUT'; payload: GameLayout }
+  | { type: 'RESTORE_DAILY_RESULT'; payload: DailyResult }
+  | { type: 'START_BLITZ'; payload: number } // Start time, Unix ms
+  | { type: 'BLITZ_TICK'; payload: number } // Current time, Unix ms
+  | { type: 'BLITZ_EXPIRE' }
   | { type: 'SHOW_SUMMARY' }
   | { type: 'HIDE_SUMMARY' };
@@ -0,0 +1,11 @@
+/**
+ * 32-bit FNV-1a hash. Small, synchronous and identical in Node and the browser.
+ */
+export const fnv1a = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,43 @@
+// Console logging with a level, so debug output stays out of production consoles.
+// VITE_LOG_LEVEL sets the level at build time; by default dev builds log everything
+// and production builds only warnings and errors.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+const isLogLevel = (value: unknown): value is LogLevel => LOG_LEVELS.includes(value as LogLevel);
+
+let currentLevel: LogLevel = isLogLevel(import.meta.env.VITE_LOG_LEVEL)
+  ? import.meta.env.VITE_LOG_LEVEL
+  : import.meta.env.DEV ? 'debug' : 'warn';
+
+export const getLogLevel = (): LogLevel => currentLevel;
+
+export const setLogLevel = (level: LogLevel): void => {
+  currentLevel = level;
+};
+
+const enabled = (level: Exclude<LogLevel, 'silent'>): boolean =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(currentLevel);
+
+/**
+ * A logger whose messages start with `[scope]`. The level is checked on every call,
+ * so setLogLevel applies to loggers created before it.
+ */
+export const createLogger = (scope: string): Logger => {
+  const prefix = `[${scope}]`;
+  return {
+    debug: (...args) => { if (enabled('debug')) console.debug(prefix, ...args); },
+    info: (...args) => { if (enabled('info')) console.info(prefix, ...args); },
+    warn: (...args) => { if (enabled('warn')) console.warn(prefix, ...args); },
+    error: (...args) => { if (enabled('error')) console.error(prefix, ...args); },
+  };
+};
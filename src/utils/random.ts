@@ -0,0 +1,53 @@
+import { fnv1a } from './hash';
+
+/** Returns a float in [0, 1), same contract as Math.random. */
+export type RandomSource = () => number;
+
+// Crockford's base 32 without ambiguous letters, so seeds can be read out loud
+const SEED_ALPHABET = '0123456789abcdefghjkmnpqrstvwxyz';
+const SEED_LENGTH = 8;
+
+const MULBERRY_INCREMENT = 0x6d2b79f5;
+
+const mulberryOutput = (state: number): number => {
+  let t = state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Mulberry32: a tiny seeded PRNG. Good enough for picking images, and it gives
+ * the same sequence on every device for the same seed.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + MULBERRY_INCREMENT) >>> 0;
+    return mulberryOutput(state);
+  };
+};
+
+/**
+ * Runs `draw` on the stream at `state` and returns the state to carry on from. Lets immutable
+ * state (like the game engine's) continue one seeded stream without holding a closure.
+ */
+export const drawFrom = <T,>(state: number, draw: (random: RandomSource) => T): { value: T; state: number } => {
+  let current = state >>> 0;
+  const value = draw(() => {
+    current = (current + MULBERRY_INCREMENT) >>> 0;
+    return mulberryOutput(current);
+  });
+  return { value, state: current };
+};
+
+export const seedFromString = (value: string): number => fnv1a(value);
+
+/**
+ * A fresh seed for a round, e.g. "k3f9x2ab".
+ */
+export const createSeed = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(SEED_LENGTH)), byte => SEED_ALPHABET[byte % SEED_ALPHABET.length]).join('');
+
+export const randomInt = (random: RandomSource, maxExclusive: number): number =>
+  Math.floor(random() * maxExclusive);
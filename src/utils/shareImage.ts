@@ -0,0 +1,55 @@
+import domtoimage from 'dom-to-image-more';
+
+/**
+ * Resolves once every <img> inside the node has loaded (or failed), so the
+ * snapshot doesn't capture half-loaded thumbnails.
+ */
+const waitForImages = (node: HTMLElement): Promise<void> =>
+  Promise.all(
+    Array.from(node.querySelectorAll('img')).map(img =>
+      img.complete ? Promise.resolve() : new Promise<void>(resolve => {
+        img.addEventListener('load', () => resolve(), { once: true });
+        img.addEventListener('error', () => resolve(), { once: true });
+      })
+    )
+  ).then(() => undefined);
+
+/**
+ * Renders a DOM node to a PNG file at twice its CSS size.
+ */
+export const renderNodeToPng = async (node: HTMLElement, fileName: string): Promise<File> => {
+  await waitForImages(node);
+  const blob = await domtoimage.toBlob(node, { scale: 2, bgcolor: '#ffffff' });
+  return new File([blob], fileName, { type: 'image/png' });
+};
+
+export const downloadFile = (file: File) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Opens the native share sheet with the file where the Web Share API supports
+ * files, and downloads it everywhere else.
+ * @returns 'shared' or 'downloaded', depending on the path taken
+ */
+export const shareOrDownloadFile = async (file: File, text: string): Promise<'shared' | 'downloaded'> => {
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], text });
+      return 'shared';
+    } catch (error) {
+      // The user closing the share sheet is not a failure worth falling back from
+      if (error instanceof DOMException && error.name === 'AbortError') return 'shared';
+    }
+  }
+  downloadFile(file);
+  return 'downloaded';
+};
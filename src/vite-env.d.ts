@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+// Generated by plugins/imageCatalog.ts
+declare module 'virtual:image-catalog' {
+  const entries: Array<{
+    id: string;
+    src: string;
+    variants: Record<'avif' | 'webp' | 'jpeg', string[]>;
+    lqipSrc?: string;
+    category: string;
+    seal: number;
+    metaSrc: string;
+    retired?: true;
+  }>;
+  export const catalogKey: string;
+  export default entries;
+}
+
+interface ImportMetaEnv {
+  readonly VITE_LEADERBOARD_URL?: string; // Leaderboard server; boards stay in memory without it
+  readonly VITE_CROWD_URL?: string; // Crowd statistics endpoint; outcomes stay in memory without it
+  readonly VITE_ANALYTICS?: string; // vercel, console or off; see analytics/track
+  readonly VITE_LOG_LEVEL?: string; // debug, info, warn, error or silent; see utils/logger
+}
@@ -1,9 +1,25 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { imageCatalog } from './plugins/imageCatalog';
+import { serviceWorker } from './plugins/serviceWorker';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    imageCatalog({ root: 'images' }),
+    serviceWorker({
+      source: 'src/serviceWorker/sw.ts',
+      publicFiles: [
+        '/favicon.ico',
+        '/realorai.png',
+        '/realorai.svg',
+        '/alkemist-logo/Alkemist-logo.svg',
+        '/manifest.webmanifest',
+        '/icons/icon-192.png',
+      ],
+    }),
+  ],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Tests run without the image-catalog plugin: the virtual module resolves to an
+// empty catalog and each test loads its own fixtures with loadCatalog.
+export default defineConfig({
+  resolve: {
+    alias: {
+      'virtual:image-catalog': fileURLToPath(new URL('./src/test/emptyCatalog.ts', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    setupFiles: ['./src/test/setup.ts'],
+  },
+});